@@ -59,6 +59,16 @@ export class ComponentGraph extends Projection {
     return this.getComponents().filter(c => c.dependencies.length > threshold);
   }
 
+  /**
+   * Get components ordered by coupling (afferent + efferent), most coupled first
+   * These are the components that are hardest to change.
+   */
+  getMostCoupled(limit: number = 10): Component[] {
+    return [...this.getComponents()]
+      .sort((a, b) => (b.metrics.coupling ?? 0) - (a.metrics.coupling ?? 0))
+      .slice(0, limit);
+  }
+
   /**
    * Get projection data
    */
@@ -82,7 +92,11 @@ export class ComponentGraph extends Projection {
       },
       averageCoupling: components.length > 0
         ? components.reduce((sum, c) => sum + c.dependencies.length, 0) / components.length
-        : 0
+        : 0,
+      averageCohesion: components.length > 0
+        ? components.reduce((sum, c) => sum + (c.metrics.cohesion ?? 0), 0) / components.length
+        : 0,
+      mostCoupled: this.getMostCoupled(5).map(c => c.name)
     };
   }
 }
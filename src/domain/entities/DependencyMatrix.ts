@@ -1,5 +1,6 @@
 /**
  * DependencyMatrix - Matrix view of dependencies
+ * Rows depend on columns: cell (A, B) counts how often A uses B.
  */
 
 import { Projection, ProjectionMetadata } from './Projection.js';
@@ -15,6 +16,7 @@ export class DependencyMatrix extends Projection {
   private matrix: Map<string, MatrixCell> = new Map();
   private rowLabels: Set<string> = new Set();
   private columnLabels: Set<string> = new Set();
+  private blocks: string[][] = [];
 
   constructor(id: string, metadata: ProjectionMetadata) {
     super(id, metadata);
@@ -52,6 +54,27 @@ export class DependencyMatrix extends Projection {
     return Array.from(this.columnLabels);
   }
 
+  /**
+   * Set the groups of labels that form strongly connected blocks
+   */
+  setBlocks(blocks: string[][]): void {
+    this.blocks = blocks;
+  }
+
+  /**
+   * Get the strongly connected blocks, in matrix order
+   */
+  getBlocks(): string[][] {
+    return this.blocks;
+  }
+
+  /**
+   * Get blocks with more than one member (i.e. dependency cycles)
+   */
+  getCyclicBlocks(): string[][] {
+    return this.blocks.filter(b => b.length > 1);
+  }
+
   /**
    * Get matrix dimensions
    */
@@ -80,7 +103,8 @@ export class DependencyMatrix extends Projection {
       dimensions: this.getDimensions(),
       totalCells: cells.length,
       nonZeroCells: nonZero.length,
-      sparsity: cells.length > 0 ? 1 - (nonZero.length / cells.length) : 0
+      sparsity: cells.length > 0 ? 1 - (nonZero.length / cells.length) : 0,
+      cyclicBlocks: this.getCyclicBlocks().length
     };
   }
 }
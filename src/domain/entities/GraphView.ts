@@ -13,6 +13,7 @@ export interface GraphViewNode {
   width?: number;
   height?: number;
   color?: string;
+  parentId?: string;         // Enclosing GraphViewCluster ID
   metadata: {
     fileCount?: number;
     dependencyCount?: number;
@@ -29,30 +30,80 @@ export interface GraphViewEdge {
   label?: string;
   color?: string;
   weight?: number;
+  points?: GraphViewPoint[];  // Route from source to target boundary, set by layouts that route edges
+  labelX?: number;           // Label centre, set by layouts that place edge labels
+  labelY?: number;
   metadata: {
     importCount?: number;
     [key: string]: any;
   };
 }
 
+export interface GraphViewPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A box drawn around related nodes, e.g. their parent directory or layer
+ */
+export interface GraphViewCluster {
+  id: string;
+  label: string;
+  parentId?: string;         // Enclosing cluster ID
+  x?: number;                // Centre, set by compound layouts
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
 export interface GraphViewMetadata {
   projectionType: string;
   generatedAt: Date;
   layout?: string;  // 'dagre', 'force', etc.
   layoutConfig?: Record<string, any>;
+  layoutSelection?: GraphViewLayoutSelection;
   [key: string]: any;
 }
 
+/**
+ * Which layout engine laid out a view, and why
+ */
+export interface GraphViewLayoutSelection {
+  requested: string;         // Engine name asked for, or 'auto'
+  engine: string;
+  reasons: string[];
+}
+
 export class GraphView extends Entity<string> {
   constructor(
     id: string,
     public readonly nodes: GraphViewNode[],
     public readonly edges: GraphViewEdge[],
-    public readonly metadata: GraphViewMetadata
+    public readonly metadata: GraphViewMetadata,
+    public readonly clusters: GraphViewCluster[] = []
   ) {
     super(id);
   }
 
+  /**
+   * Get cluster by ID
+   */
+  getCluster(id: string): GraphViewCluster | undefined {
+    return this.clusters.find(c => c.id === id);
+  }
+
+  /**
+   * Get the number of enclosing clusters of a cluster (top-level clusters have depth 0)
+   */
+  getClusterDepth(id: string): number {
+    let depth = 0;
+    for (let current = this.getCluster(id); current?.parentId; current = this.getCluster(current.parentId)) {
+      depth++;
+    }
+    return depth;
+  }
+
   /**
    * Get node by ID
    */
@@ -4,12 +4,31 @@
 
 import { Projection, ProjectionMetadata } from './Projection.js';
 
+/**
+ * A layer declared through ViewConfiguration.options.layers
+ * Layers are ordered top (e.g. presentation) to bottom (e.g. domain).
+ */
+export interface LayerDefinition {
+  name: string;
+  paths: string[];          // Globs relative to rootPath, e.g. ['src/domain/**']
+  canDependOn?: string[];   // Allowed target layers; defaults to every layer declared below
+}
+
+export interface LayerViolation {
+  from: string;          // importing file path
+  to: string;            // imported file path
+  reason: string;
+  fromLayer?: string;
+  toLayer?: string;
+  edgeId?: string;       // IMPORTS edge in the source PropertyGraph
+}
+
 export interface Layer {
   name: string;
   path: string;
   nodeCount: number;
   dependencies: string[];
-  violations: Array<{ from: string; to: string; reason: string }>;
+  violations: LayerViolation[];
 }
 
 export class LayerProjection extends Projection {
@@ -43,7 +62,7 @@ export class LayerProjection extends Projection {
   /**
    * Get layer violations
    */
-  getAllViolations(): Array<{ from: string; to: string; reason: string }> {
+  getAllViolations(): LayerViolation[] {
     return this.getLayers().flatMap(l => l.violations);
   }
 
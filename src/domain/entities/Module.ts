@@ -3,6 +3,7 @@
  */
 
 import { Entity } from '@garrick0/c3-shared';
+import { ImportKind } from '../value-objects/ImportKind.js';
 
 export interface ModuleMetrics {
   fileCount: number;
@@ -10,9 +11,64 @@ export interface ModuleMetrics {
   dependencyCount: number;    // outgoing dependencies
   dependentCount: number;     // incoming dependencies
   cyclicComplexity?: number;
+
+  // Robert C. Martin package metrics (set by MetricsCalculator.calculatePackageMetrics)
+  typeCount?: number;         // classes and interfaces
+  abstractTypeCount?: number; // interfaces and abstract classes
+  afferentCoupling?: number;  // Ca: internal modules depending on this one
+  efferentCoupling?: number;  // Ce: internal modules this one depends on
+  instability?: number;       // I = Ce / (Ca + Ce)
+  abstractness?: number;      // A = abstract types / types
+  distance?: number;          // D = |A + I - 1|, distance from the main sequence
+}
+
+/**
+ * Third-party package or Node built-in represented by a synthetic module
+ */
+export interface ExternalModuleInfo {
+  packageName: string;
+  version?: string;           // Range declared by the nearest package.json
+  builtin: boolean;
+}
+
+/**
+ * A file-level import behind a module dependency
+ */
+export interface FileImportPair {
+  from: string;               // importing file path
+  to: string;                 // imported file path
+  importCount: number;        // import statements from `from` to `to`
+  symbols: string[];          // distinct imported names
+  kinds: ImportKind[];        // distinct import kinds
+}
+
+/**
+ * Import statements to record against a dependency
+ */
+export interface ImportRecord {
+  from: string;
+  to: string;
+  symbols?: string[];
+  kinds?: ImportKind[];
+  importCount?: number;       // defaults to 1
+}
+
+/**
+ * Strength of a module dependency, aggregated from its file-level imports
+ */
+export interface ModuleDependency {
+  importCount: number;        // import statements
+  filePairs: FileImportPair[];
+  symbols: string[];          // distinct imported names across all file pairs
+  kinds: ImportKind[];        // distinct import kinds across all file pairs
 }
 
 export class Module extends Entity<string> {
+  public parentId?: string;                                // Enclosing module in a nested projection
+  public readonly children: Set<string> = new Set();      // Child module IDs in a nested projection
+  public external?: ExternalModuleInfo;                   // Set on synthetic modules for packages outside the codebase
+  private importsByDependency: Map<string, Map<string, FileImportPair>> = new Map();
+
   constructor(
     id: string,
     public readonly name: string,
@@ -32,6 +88,59 @@ export class Module extends Entity<string> {
     this.dependencies.add(moduleId);
   }
 
+  /**
+   * Record file-level imports behind a dependency (adds the dependency if needed)
+   */
+  recordImport(moduleId: string, record: ImportRecord): void {
+    this.addDependency(moduleId);
+
+    if (!this.importsByDependency.has(moduleId)) {
+      this.importsByDependency.set(moduleId, new Map());
+    }
+
+    const pairs = this.importsByDependency.get(moduleId)!;
+    const key = `${record.from}->${record.to}`;
+    const pair = pairs.get(key) ?? { from: record.from, to: record.to, importCount: 0, symbols: [], kinds: [] };
+
+    pair.importCount += record.importCount ?? 1;
+    pair.symbols = Array.from(new Set([...pair.symbols, ...(record.symbols ?? [])]));
+    pair.kinds = Array.from(new Set([...pair.kinds, ...(record.kinds ?? [])]));
+    pairs.set(key, pair);
+  }
+
+  /**
+   * Get the imports behind a dependency
+   * @returns undefined when the dependency has no recorded imports
+   */
+  getDependencyDetails(moduleId: string): ModuleDependency | undefined {
+    const pairs = this.importsByDependency.get(moduleId);
+    if (!pairs) return undefined;
+
+    const filePairs = Array.from(pairs.values())
+      .map(pair => ({ ...pair, symbols: [...pair.symbols], kinds: [...pair.kinds] }));
+    return {
+      importCount: filePairs.reduce((sum, pair) => sum + pair.importCount, 0),
+      filePairs,
+      symbols: Array.from(new Set(filePairs.flatMap(pair => pair.symbols))).sort(),
+      kinds: Array.from(new Set(filePairs.flatMap(pair => pair.kinds))).sort()
+    };
+  }
+
+  /**
+   * Check if a dependency exists only through `import type` statements
+   */
+  isTypeOnlyDependency(moduleId: string): boolean {
+    const kinds = this.getDependencyDetails(moduleId)?.kinds ?? [];
+    return kinds.length > 0 && kinds.every(kind => kind === ImportKind.TYPE_ONLY);
+  }
+
+  /**
+   * Get the number of import statements behind a dependency (0 when none are recorded)
+   */
+  getImportCount(moduleId: string): number {
+    return this.getDependencyDetails(moduleId)?.importCount ?? 0;
+  }
+
   /**
    * Add a dependent to this module
    */
@@ -81,6 +190,48 @@ export class Module extends Entity<string> {
     return Array.from(this.dependents);
   }
 
+  /**
+   * Set the enclosing module (nested projections only)
+   */
+  setParent(moduleId: string): void {
+    this.parentId = moduleId;
+  }
+
+  /**
+   * Add a child module (nested projections only)
+   */
+  addChild(moduleId: string): void {
+    this.children.add(moduleId);
+  }
+
+  /**
+   * Get child module IDs as array
+   */
+  getChildren(): string[] {
+    return Array.from(this.children);
+  }
+
+  /**
+   * Check if this module contains child modules
+   */
+  hasChildren(): boolean {
+    return this.children.size > 0;
+  }
+
+  /**
+   * Mark this as a synthetic module for an external package or built-in
+   */
+  markExternal(info: ExternalModuleInfo): void {
+    this.external = info;
+  }
+
+  /**
+   * Check if this module stands for code outside the codebase
+   */
+  isExternal(): boolean {
+    return this.external !== undefined;
+  }
+
   /**
    * Check if this is a root module (no dependents)
    */
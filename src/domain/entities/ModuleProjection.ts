@@ -5,6 +5,8 @@
 import { Projection, ProjectionMetadata } from './Projection.js';
 import { Module } from './Module.js';
 import { AggregationLevel } from '../value-objects/AggregationLevel.js';
+import { type ImportDiagnostics } from '../value-objects/ImportDiagnostics.js';
+import { CycleAnalyzer } from '../services/CycleAnalyzer.js';
 
 export interface ModuleProjectionMetadata extends ProjectionMetadata {
   rootPath: string;
@@ -12,10 +14,29 @@ export interface ModuleProjectionMetadata extends ProjectionMetadata {
   generatedAt: Date;
   totalFiles: number;
   totalDependencies: number;
+  diagnostics?: ImportDiagnostics;   // Imports dropped while calculating dependencies
+}
+
+/**
+ * Dependency cycles between the modules, by module ID (see CycleAnalyzer)
+ */
+export interface ModuleCycles {
+  components: string[][];            // strongly connected components that contain a cycle
+  cycles: string[][];                // elementary cycles, component by component
+}
+
+/**
+ * Modules far from the main sequence, by module ID (see MetricsCalculator)
+ */
+export interface MainSequenceZones {
+  pain: string[];                    // concrete and stable
+  uselessness: string[];             // abstract and unstable
 }
 
 export class ModuleProjection extends Projection {
   private modules: Map<string, Module> = new Map();
+  private cycles?: ModuleCycles;
+  private zones: MainSequenceZones = { pain: [], uselessness: [] };
 
   constructor(
     id: string,
@@ -83,45 +104,168 @@ export class ModuleProjection extends Projection {
   }
 
   /**
-   * Detect circular dependencies
+   * Get synthetic modules standing for npm packages and Node built-ins
    */
-  getCycles(): Module[][] {
-    const cycles: Module[][] = [];
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-    const currentPath: Module[] = [];
+  getExternalModules(): Module[] {
+    return this.getModules().filter(m => m.isExternal());
+  }
+
+  /**
+   * Get the parent module in a nested projection
+   */
+  getParent(id: string): Module | undefined {
+    const parentId = this.modules.get(id)?.parentId;
+    return parentId ? this.modules.get(parentId) : undefined;
+  }
+
+  /**
+   * Get the child modules in a nested projection
+   */
+  getChildren(id: string): Module[] {
+    const module = this.modules.get(id);
+    if (!module) return [];
+    return module.getChildren()
+      .map(childId => this.modules.get(childId))
+      .filter((m): m is Module => m !== undefined);
+  }
+
+  /**
+   * Get the nesting depth of a module (top-level modules have depth 1)
+   */
+  getModuleDepth(id: string): number {
+    let depth = 0;
+    let current = this.modules.get(id);
+    while (current) {
+      depth++;
+      current = current.parentId ? this.modules.get(current.parentId) : undefined;
+    }
+    return depth;
+  }
+
+  /**
+   * Get the modules visible when zoomed to a depth: modules at that depth,
+   * plus shallower modules that have no children or own files of their own
+   * (e.g. domain/index.ts next to domain/services), which would otherwise be lost
+   */
+  getModulesAtDepth(depth: number): Module[] {
+    return this.getModules().filter(m => {
+      const moduleDepth = this.getModuleDepth(m.id);
+      return moduleDepth === depth || (moduleDepth < depth && (!m.hasChildren() || m.files.length > 0));
+    });
+  }
+
+  /**
+   * Collapse a nested projection to a single depth
+   * Each visible module absorbs the files, line counts, dependencies and
+   * dependency imports of its descendants, so callers can zoom in or out
+   * without re-running the projection. Recorded cycles are not carried over:
+   * the rolled-up projection analyzes its own on demand. Main-sequence zones
+   * are dropped; recompute them with MetricsCalculator.calculateMainSequenceMetrics
+   * and recordMainSequenceZones.
+   */
+  rollUp(depth: number): ModuleProjection {
+    const visible = this.getModulesAtDepth(depth);
+    const visibleIds = new Set(visible.map(m => m.id));
+
+    // Map every module to its visible ancestor (or itself)
+    const representative = new Map<string, string>();
+    for (const module of this.getModules()) {
+      let current: Module | undefined = module;
+      while (current && !visibleIds.has(current.id)) {
+        current = current.parentId ? this.modules.get(current.parentId) : undefined;
+      }
+      if (current) {
+        representative.set(module.id, current.id);
+      }
+    }
+
+    const rolled = new Map<string, Module>(visible.map(m => {
+      const module = new Module(
+        m.id,
+        m.name,
+        m.path,
+        [],
+        new Set<string>(),
+        new Set<string>(),
+        { fileCount: 0, totalLines: 0, dependencyCount: 0, dependentCount: 0 }
+      );
+      if (m.external) module.markExternal(m.external);
+      return [m.id, module];
+    }));
 
-    const dfs = (moduleId: string): void => {
-      const module = this.modules.get(moduleId);
-      if (!module) return;
+    for (const module of this.getModules()) {
+      const target = rolled.get(representative.get(module.id)!);
+      if (!target) continue;
 
-      visited.add(moduleId);
-      recursionStack.add(moduleId);
-      currentPath.push(module);
+      target.files.push(...module.files);
+      target.metrics.fileCount += module.metrics.fileCount;
+      target.metrics.totalLines += module.metrics.totalLines;
+      if (module.metrics.typeCount !== undefined) {
+        target.metrics.typeCount = (target.metrics.typeCount ?? 0) + module.metrics.typeCount;
+        target.metrics.abstractTypeCount = (target.metrics.abstractTypeCount ?? 0) + (module.metrics.abstractTypeCount ?? 0);
+      }
 
       for (const depId of module.dependencies) {
-        if (!visited.has(depId)) {
-          dfs(depId);
-        } else if (recursionStack.has(depId)) {
-          // Found a cycle
-          const cycleStartIdx = currentPath.findIndex(m => m.id === depId);
-          if (cycleStartIdx !== -1) {
-            cycles.push(currentPath.slice(cycleStartIdx));
+        const depTarget = representative.get(depId);
+        if (depTarget && depTarget !== target.id) {
+          const details = module.getDependencyDetails(depId);
+          if (details) {
+            for (const pair of details.filePairs) {
+              target.recordImport(depTarget, pair);
+            }
+          } else {
+            target.addDependency(depTarget);
           }
+          rolled.get(depTarget)!.addDependent(target.id);
         }
       }
+    }
 
-      currentPath.pop();
-      recursionStack.delete(moduleId);
+    for (const module of rolled.values()) {
+      module.metrics.dependencyCount = module.getDependencyCount();
+      module.metrics.dependentCount = module.getDependentCount();
+    }
+
+    const modules = Array.from(rolled.values());
+    const metadata: ModuleProjectionMetadata = {
+      ...(this.metadata as ModuleProjectionMetadata),
+      totalDependencies: modules.reduce((sum, m) => sum + m.getDependencyCount(), 0)
     };
 
-    for (const module of this.modules.values()) {
-      if (!visited.has(module.id)) {
-        dfs(module.id);
-      }
-    }
+    return new ModuleProjection(`${this.id}-depth-${depth}`, metadata, modules);
+  }
 
-    return cycles;
+  /**
+   * Record the dependency cycles found by CycleAnalyzer
+   */
+  setCycles(cycles: ModuleCycles): void {
+    this.cycles = cycles;
+  }
+
+  /**
+   * Get the dependency cycles recorded by CycleAnalyzer, or analyze them with
+   * its defaults when none were recorded
+   * @returns One module path per elementary cycle, in a stable order
+   */
+  getCycles(): Module[][] {
+    return this.getModuleCycles().cycles.map(cycle => cycle.map(id => this.modules.get(id)!));
+  }
+
+  private getModuleCycles(): ModuleCycles {
+    if (this.cycles) return this.cycles;
+
+    const analysis = new CycleAnalyzer().analyze(this.getModules());
+    return {
+      components: analysis.components.map(c => c.modules),
+      cycles: analysis.cycles.map(c => c.modules)
+    };
+  }
+
+  /**
+   * Record the modules MetricsCalculator found far from the main sequence
+   */
+  setMainSequenceZones(zones: MainSequenceZones): void {
+    this.zones = zones;
   }
 
   /**
@@ -134,8 +278,10 @@ export class ModuleProjection extends Projection {
     averageDependenciesPerModule: number;
     maxDependencies: number;
     cyclicDependencies: number;
+    cyclicComponents: number;
   } {
     const modules = this.getModules();
+    const cycles = this.getModuleCycles();
     const totalDeps = modules.reduce((sum, m) => sum + m.getDependencyCount(), 0);
     const maxDeps = Math.max(...modules.map(m => m.getDependencyCount()), 0);
     const totalFiles = modules.reduce((sum, m) => sum + m.files.length, 0);
@@ -146,7 +292,8 @@ export class ModuleProjection extends Projection {
       totalDependencies: totalDeps,
       averageDependenciesPerModule: modules.length > 0 ? totalDeps / modules.length : 0,
       maxDependencies: maxDeps,
-      cyclicDependencies: this.getCycles().length
+      cyclicDependencies: cycles.cycles.length,
+      cyclicComponents: cycles.components.length
     };
   }
 
@@ -169,7 +316,11 @@ export class ModuleProjection extends Projection {
       largestModule: modules.reduce((max, m) =>
         m.files.length > (max?.files.length || 0) ? m : max, modules[0])?.name,
       rootModules: this.getRootModules().length,
-      leafModules: this.getLeafModules().length
+      leafModules: this.getLeafModules().length,
+      externalModules: this.getExternalModules().length,
+      unresolvedImports: (this.metadata as ModuleProjectionMetadata).diagnostics?.unresolved.length ?? 0,
+      zoneOfPain: this.zones.pain.map(id => this.modules.get(id)!.name),
+      zoneOfUselessness: this.zones.uselessness.map(id => this.modules.get(id)!.name)
     };
   }
 }
@@ -64,6 +64,26 @@ export class TreeProjection extends Projection {
     return 1 + node.children.reduce((sum, c) => sum + this.getNodeCount(c), 0);
   }
 
+  /**
+   * Get all nodes of a given type (depth-first)
+   */
+  getNodesByType(type: TreeNode['type'], node: TreeNode = this.root!): TreeNode[] {
+    if (!node) return [];
+    const own = node.type === type ? [node] : [];
+    return own.concat(node.children.flatMap(c => this.getNodesByType(type, c)));
+  }
+
+  /**
+   * Get the nodes of a given type with the highest value for a numeric metadata key
+   * e.g. getTopNodes('lineCount', 'directory') for the biggest folders
+   */
+  getTopNodes(metric: string, type: TreeNode['type'] = 'directory', limit: number = 10): TreeNode[] {
+    return this.getNodesByType(type)
+      .filter(n => typeof n.metadata?.[metric] === 'number')
+      .sort((a, b) => b.metadata![metric] - a.metadata![metric])
+      .slice(0, limit);
+  }
+
   /**
    * Get projection data
    */
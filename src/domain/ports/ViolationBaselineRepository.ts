@@ -0,0 +1,15 @@
+/**
+ * ViolationBaselineRepository - Port for storing the violation baseline
+ */
+
+import { type ViolationBaseline } from '../value-objects/ViolationBaseline.js';
+
+export interface ViolationBaselineRepository {
+  /**
+   * Load the stored baseline
+   * @returns undefined when no baseline has been recorded yet
+   */
+  load(): Promise<ViolationBaseline | undefined>;
+
+  save(baseline: ViolationBaseline): Promise<void>;
+}
@@ -0,0 +1,141 @@
+/**
+ * ArchitectureRuleEvaluator - Checks a module projection against declarative dependency rules
+ */
+
+import { ModuleProjection, type ModuleProjectionMetadata } from '../entities/ModuleProjection.js';
+import { Module, type FileImportPair } from '../entities/Module.js';
+import { GlobPattern } from '../value-objects/GlobPattern.js';
+import {
+  type ArchitectureRule,
+  type ArchitectureRuleSet,
+  type ArchitectureRuleType,
+  type RuleSeverity
+} from '../value-objects/ArchitectureRule.js';
+import { CycleAnalyzer } from './CycleAnalyzer.js';
+import * as path from 'path';
+
+/**
+ * A module dependency that breaks a rule, with the imports behind it
+ */
+export interface ArchitectureViolation {
+  rule: string;                     // rule name
+  type: ArchitectureRuleType;
+  severity: RuleSeverity;
+  message: string;
+  from: string;                     // module ID
+  to: string;                       // module ID
+  imports: FileImportPair[];        // offending files, with the symbols they import
+  cycle?: string[];                 // no-cycles only: module IDs of a cycle through this dependency
+}
+
+type ModuleMatcher = (module: Module) => boolean;
+
+export class ArchitectureRuleEvaluator {
+  private cycleAnalyzer = new CycleAnalyzer();
+
+  /**
+   * Evaluate every rule against the projection's module dependencies
+   * @returns violations in rule order, then by importing and imported module ID
+   */
+  evaluate(projection: ModuleProjection, ruleSet: ArchitectureRuleSet): ArchitectureViolation[] {
+    const rootPath = (projection.metadata as ModuleProjectionMetadata).rootPath ?? '';
+    const modules = [...projection.getModules()].sort((a, b) => a.id.localeCompare(b.id));
+
+    return ruleSet.rules.flatMap(rule => {
+      const dependencies = this.evaluateRule(rule, modules, projection, rootPath);
+      return dependencies.map(({ from, to, cycle }) => ({
+        rule: rule.name,
+        type: rule.type,
+        severity: rule.severity ?? 'error',
+        message: this.describe(rule, projection.getModule(from)!, projection.getModule(to)!),
+        from,
+        to,
+        imports: projection.getModule(from)!.getDependencyDetails(to)?.filePairs ?? [],
+        ...(cycle ? { cycle } : {})
+      }));
+    });
+  }
+
+  /**
+   * Find the dependencies breaking one rule
+   */
+  private evaluateRule(
+    rule: ArchitectureRule,
+    modules: Module[],
+    projection: ModuleProjection,
+    rootPath: string
+  ): Array<{ from: string; to: string; cycle?: string[] }> {
+    switch (rule.type) {
+      case 'forbidden': {
+        const isSource = this.matcher(rule.from, rootPath);
+        const isTarget = this.matcher(rule.to, rootPath);
+        return this.findDependencies(modules, projection, (from, to) => isSource(from) && isTarget(to));
+      }
+
+      case 'allowed-only': {
+        const isSource = this.matcher(rule.from, rootPath);
+        const isTarget = this.matcher(rule.to, rootPath);
+        return this.findDependencies(modules, projection, (from, to) => isSource(from) && !isSource(to) && !isTarget(to));
+      }
+
+      case 'independent': {
+        const inScope = this.matcher(rule.scope, rootPath);
+        return this.findDependencies(modules, projection, (from, to) => inScope(from) && !inScope(to));
+      }
+
+      case 'no-cycles': {
+        const inScope = this.matcher(rule.scope, rootPath);
+        const seen = new Set<string>();
+
+        return this.cycleAnalyzer.analyze(modules.filter(inScope)).cycles.flatMap(cycle => cycle.edges
+          .filter(edge => {
+            const key = `${edge.from}->${edge.to}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          })
+          .map(edge => ({ from: edge.from, to: edge.to, cycle: cycle.modules })))
+          .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+      }
+    }
+  }
+
+  private findDependencies(
+    modules: Module[],
+    projection: ModuleProjection,
+    violates: (from: Module, to: Module) => boolean
+  ): Array<{ from: string; to: string }> {
+    return modules.flatMap(from => from.getDependencies()
+      .sort()
+      .map(depId => projection.getModule(depId))
+      .filter((to): to is Module => to !== undefined && violates(from, to))
+      .map(to => ({ from: from.id, to: to.id })));
+  }
+
+  /**
+   * Match modules by relative path or name against any of the globs
+   */
+  private matcher(patterns: string[], rootPath: string): ModuleMatcher {
+    const globs = patterns.map(p => GlobPattern.create(p));
+
+    return (module: Module) => {
+      const candidates = module.isExternal()
+        ? [module.name]
+        : [path.relative(rootPath, module.path) || '.', module.name];
+      return globs.some(glob => candidates.some(candidate => glob.matches(candidate)));
+    };
+  }
+
+  private describe(rule: ArchitectureRule, from: Module, to: Module): string {
+    switch (rule.type) {
+      case 'forbidden':
+        return `Module '${from.name}' must not depend on '${to.name}'`;
+      case 'allowed-only':
+        return `Module '${from.name}' may only depend on ${rule.to.join(', ')}, but depends on '${to.name}'`;
+      case 'independent':
+        return `Module '${from.name}' must not depend on '${to.name}' outside ${rule.scope.join(', ')}`;
+      case 'no-cycles':
+        return `Dependency '${from.name}' -> '${to.name}' is part of a cycle within ${rule.scope.join(', ')}`;
+    }
+  }
+}
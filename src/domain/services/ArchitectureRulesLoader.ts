@@ -0,0 +1,114 @@
+/**
+ * ArchitectureRulesLoader - Service for reading architecture rules from JSON or YAML files
+ *
+ * Example (YAML):
+ *   rules:
+ *     - name: domain-is-pure
+ *       type: independent
+ *       scope: src/domain/**
+ *     - name: no-infrastructure-in-application
+ *       type: forbidden
+ *       from: src/application/**
+ *       to: [src/infrastructure/**]
+ *       severity: warning
+ */
+
+import { Logger } from '@garrick0/c3-shared';
+import { parse as parseYaml } from 'yaml';
+import { promises as fs } from 'fs';
+import {
+  type ArchitectureRule,
+  type ArchitectureRuleSet,
+  type ArchitectureRuleType,
+  type RuleSeverity
+} from '../value-objects/ArchitectureRule.js';
+
+const RULE_TYPES: ArchitectureRuleType[] = ['forbidden', 'allowed-only', 'independent', 'no-cycles'];
+const SEVERITIES: RuleSeverity[] = ['error', 'warning'];
+
+export class ArchitectureRulesLoader {
+  constructor(private logger: Logger) {}
+
+  /**
+   * Load and validate a rules file
+   */
+  async load(filePath: string): Promise<ArchitectureRuleSet> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const ruleSet = this.parse(content, filePath);
+
+    this.logger.info('Loaded architecture rules', { filePath, rules: ruleSet.rules.length });
+    return ruleSet;
+  }
+
+  /**
+   * Parse and validate rules from JSON or YAML text
+   * Single patterns may be given as a string instead of a list.
+   */
+  parse(content: string, source: string = 'rules'): ArchitectureRuleSet {
+    let raw: unknown;
+    try {
+      raw = parseYaml(content);
+    } catch (error) {
+      throw new Error(`Failed to parse ${source}: ${(error as Error).message}`);
+    }
+
+    if (!this.isObject(raw) || !Array.isArray(raw.rules)) {
+      throw new Error(`${source} must contain a "rules" list`);
+    }
+
+    const names = new Set<string>();
+    const rules = raw.rules.map((value: unknown, index: number): ArchitectureRule => {
+      const entry = this.isObject(value) ? value : {};
+      const { name, type, severity, description } = entry;
+      const label = typeof name === 'string' ? `'${name}'` : `#${index + 1}`;
+      const fail = (message: string) => new Error(`Architecture rule ${label} in ${source}: ${message}`);
+
+      if (!this.isObject(value)) throw fail('must be a mapping');
+      if (typeof name !== 'string' || !name) throw fail('"name" is required');
+      if (names.has(name)) throw fail('duplicate rule name');
+      names.add(name);
+
+      if (!this.isRuleType(type)) {
+        throw fail(`"type" must be one of ${RULE_TYPES.join(', ')}`);
+      }
+      if (severity !== undefined && !this.isSeverity(severity)) {
+        throw fail(`"severity" must be one of ${SEVERITIES.join(', ')}`);
+      }
+      if (description !== undefined && typeof description !== 'string') {
+        throw fail('"description" must be a string');
+      }
+
+      const patterns = (key: string): string[] => {
+        const patternValue = typeof entry[key] === 'string' ? [entry[key]] : entry[key];
+        if (!Array.isArray(patternValue) || patternValue.length === 0 || patternValue.some(p => typeof p !== 'string')) {
+          throw fail(`"${key}" must be a glob or a non-empty list of globs`);
+        }
+        return patternValue;
+      };
+
+      const common = { name, description, severity };
+      switch (type) {
+        case 'forbidden':
+        case 'allowed-only':
+          return { ...common, type, from: patterns('from'), to: patterns('to') };
+        case 'independent':
+        case 'no-cycles':
+          return { ...common, type, scope: patterns('scope') };
+      }
+    });
+
+    return { rules };
+  }
+
+  private isRuleType(value: unknown): value is ArchitectureRuleType {
+    return RULE_TYPES.some(type => type === value);
+  }
+
+  private isSeverity(value: unknown): value is RuleSeverity {
+    return SEVERITIES.some(severity => severity === value);
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * CommunityDetector - Proposes module boundaries from how files actually import each other
+ */
+
+import { PropertyGraph, type Node } from '@garrick0/c3-parsing';
+import { Logger } from '@garrick0/c3-shared';
+import { Module } from '../entities/Module.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../entities/ModuleProjection.js';
+import { AggregationLevel } from '../value-objects/AggregationLevel.js';
+import {
+  ModuleDependencyCalculator,
+  type DependencyCalculationOptions,
+  type FileDependency
+} from './ModuleDependencyCalculator.js';
+import { CycleAnalyzer } from './CycleAnalyzer.js';
+import { MetricsCalculator } from './MetricsCalculator.js';
+
+export interface CommunityDetectionOptions extends DependencyCalculationOptions {
+  resolution?: number;                 // Louvain resolution; above 1 favours smaller modules (default 1)
+  maxLevels?: number;                  // Aggregation passes (default 10)
+}
+
+/**
+ * A module's contribution to the modularity Q of its projection
+ */
+export interface ModuleModularity {
+  moduleId: string;
+  name: string;
+  fileCount: number;
+  modularity: number;
+}
+
+/**
+ * A file whose community is dominated by files of another module
+ */
+export interface MisplacedFile {
+  fileId: string;
+  filePath: string;
+  currentModule: string;               // module ID in the input projection
+  suggestedModule: string;             // module ID in the input projection holding most of the file's community
+  community: string;                   // module ID in the proposed projection
+}
+
+export interface CommunityDetectionResult {
+  projection: ModuleProjection;        // proposed modules, with dependencies
+  modularity: number;                  // Q of the proposed modules
+  currentModularity: number;           // Q of the input modules
+  modules: ModuleModularity[];         // proposed modules, highest contribution first
+  currentModules: ModuleModularity[];  // input modules, highest contribution first
+  misplacedFiles: MisplacedFile[];
+}
+
+/**
+ * Undirected weighted graph; a node's self-loop holds the weight inside it (counted both ways)
+ */
+type WeightedGraph = Map<number, Map<number, number>>;
+
+const GAIN_EPSILON = 1e-12;
+
+export class CommunityDetector {
+  private dependencyCalculator: ModuleDependencyCalculator;
+  private cycleAnalyzer = new CycleAnalyzer();
+  private metricsCalculator = new MetricsCalculator();
+
+  constructor(private logger: Logger) {
+    this.dependencyCalculator = new ModuleDependencyCalculator(logger);
+  }
+
+  /**
+   * Cluster the files of a projection by their imports and propose the clusters as modules
+   *
+   * The files of the projection's leaf modules are clustered with the Louvain
+   * method on the undirected file graph, weighted by import statements. Files
+   * without any import in either direction carry no signal and join the
+   * community holding most of their current module. Nodes are visited in file
+   * ID order, so repeated runs propose the same modules.
+   */
+  detect(projection: ModuleProjection, graph: PropertyGraph, options: CommunityDetectionOptions = {}): CommunityDetectionResult {
+    const resolution = options.resolution ?? 1;
+    const currentModules = projection.getModules().filter(m => !m.isExternal() && !m.hasChildren());
+    const fileToModule = this.dependencyCalculator.mapFilesToModules(currentModules);
+    const fileIds = Array.from(fileToModule.keys()).sort();
+
+    this.logger.info('Detecting module communities', { files: fileIds.length, modules: currentModules.length });
+
+    const dependencies = this.dependencyCalculator.calculateFileDependencies(fileIds, graph, options);
+    const assignment = this.louvain(fileIds, dependencies, resolution, options.maxLevels ?? 10);
+    const communities = this.groupCommunities(fileIds, dependencies, assignment, fileToModule);
+
+    // Name each community after the module most of its files come from
+    const usedNames = new Map<string, number>();
+    const proposed = communities.map((files, index) => {
+      const dominant = this.dominantModule(files, fileToModule);
+      const uses = (usedNames.get(dominant.name) ?? 0) + 1;
+      usedNames.set(dominant.name, uses);
+
+      return {
+        dominant,
+        module: new Module(
+          `community-${index + 1}`,
+          uses > 1 ? `${dominant.name}-${uses}` : dominant.name,
+          dominant.path,
+          files,
+          new Set<string>(),
+          new Set<string>(),
+          {
+            fileCount: files.length,
+            totalLines: this.metricsCalculator.calculateLineCount(
+              files.map(fileId => graph.getNode(fileId)).filter((node): node is Node => node !== undefined)
+            ),
+            dependencyCount: 0,
+            dependentCount: 0
+          }
+        )
+      };
+    });
+
+    const misplacedFiles = proposed
+      .flatMap(({ dominant, module }) => module.files
+        .filter(fileId => fileToModule.get(fileId)!.id !== dominant.id)
+        .map(fileId => ({
+          fileId,
+          filePath: graph.getNode(fileId)?.metadata?.filePath ?? fileId,
+          currentModule: fileToModule.get(fileId)!.id,
+          suggestedModule: dominant.id,
+          community: module.id
+        })))
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+    const modules = proposed.map(p => p.module);
+    const { externalModules, diagnostics } = this.dependencyCalculator.calculate(modules, graph, options);
+    modules.push(...externalModules);
+
+    const metadata: ModuleProjectionMetadata = {
+      ...(projection.metadata as ModuleProjectionMetadata),
+      createdAt: new Date(),
+      configuration: { ...projection.metadata.configuration, communityDetection: { resolution } },
+      aggregationLevel: AggregationLevel.CUSTOM,
+      generatedAt: new Date(),
+      totalFiles: fileIds.length,
+      totalDependencies: modules.reduce((sum, m) => sum + m.getDependencyCount(), 0),
+      diagnostics
+    };
+
+    const proposedProjection = new ModuleProjection(`proj-communities-${Date.now()}`, metadata, modules);
+    this.cycleAnalyzer.record(proposedProjection);
+
+    const proposedScores = this.scoreModules(proposed.map(p => p.module), dependencies, resolution);
+    const currentScores = this.scoreModules(currentModules, dependencies, resolution);
+    const result: CommunityDetectionResult = {
+      projection: proposedProjection,
+      modularity: proposedScores.reduce((sum, s) => sum + s.modularity, 0),
+      currentModularity: currentScores.reduce((sum, s) => sum + s.modularity, 0),
+      modules: proposedScores,
+      currentModules: currentScores,
+      misplacedFiles
+    };
+
+    this.logger.info('Module communities detected', {
+      communities: proposed.length,
+      modularity: result.modularity,
+      currentModularity: result.currentModularity,
+      misplacedFiles: misplacedFiles.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Cluster arbitrary nodes with the Louvain method, treating links as undirected
+   * and weighting them by importCount. Links to unknown nodes are ignored.
+   * @returns community index per node ID
+   */
+  findCommunities(
+    nodeIds: string[],
+    links: FileDependency[],
+    options: Pick<CommunityDetectionOptions, 'resolution' | 'maxLevels'> = {}
+  ): Map<string, number> {
+    const known = new Set(nodeIds);
+    return this.louvain(
+      nodeIds,
+      links.filter(link => known.has(link.from) && known.has(link.to)),
+      options.resolution ?? 1,
+      options.maxLevels ?? 10
+    );
+  }
+
+  /**
+   * Louvain method: move nodes between communities while modularity improves,
+   * then collapse each community into a single node and repeat
+   * @returns community index per file ID
+   */
+  private louvain(fileIds: string[], dependencies: FileDependency[], resolution: number, maxLevels: number): Map<string, number> {
+    const index = new Map(fileIds.map((id, i) => [id, i]));
+    let graph: WeightedGraph = new Map(fileIds.map((_, i) => [i, new Map<number, number>()]));
+
+    for (const dependency of dependencies) {
+      const from = index.get(dependency.from)!;
+      const to = index.get(dependency.to)!;
+      graph.get(from)!.set(to, (graph.get(from)!.get(to) ?? 0) + dependency.importCount);
+      graph.get(to)!.set(from, (graph.get(to)!.get(from) ?? 0) + dependency.importCount);
+    }
+
+    let membership = fileIds.map((_, i) => i);
+    for (let level = 0; level < maxLevels; level++) {
+      const community = this.moveNodes(graph, resolution);
+      if (!community) break;
+
+      const labels = new Map<number, number>();
+      for (const id of community.values()) {
+        if (!labels.has(id)) labels.set(id, labels.size);
+      }
+
+      membership = membership.map(node => labels.get(community.get(node)!)!);
+      graph = this.aggregate(graph, community, labels);
+    }
+
+    return new Map(fileIds.map((id, i) => [id, membership[i]]));
+  }
+
+  /**
+   * Local moving phase
+   * @returns community per node, or undefined when no node moved
+   */
+  private moveNodes(graph: WeightedGraph, resolution: number): Map<number, number> | undefined {
+    const degree = new Map(Array.from(graph, ([node, links]) => [node, this.sum(links.values())]));
+    const totalWeight = this.sum(degree.values());
+    const community = new Map(Array.from(graph.keys(), node => [node, node]));
+    const communityDegree = new Map(degree);
+    if (totalWeight === 0) return undefined;
+
+    let moved = false;
+    let improved = true;
+    while (improved) {
+      improved = false;
+
+      for (const [node, links] of graph) {
+        const current = community.get(node)!;
+        const k = degree.get(node)!;
+
+        const linkWeights = new Map<number, number>([[current, 0]]);
+        for (const [neighbor, weight] of links) {
+          if (neighbor === node) continue;
+          const neighborCommunity = community.get(neighbor)!;
+          linkWeights.set(neighborCommunity, (linkWeights.get(neighborCommunity) ?? 0) + weight);
+        }
+
+        communityDegree.set(current, communityDegree.get(current)! - k);
+        const gain = (id: number) => linkWeights.get(id)! - resolution * communityDegree.get(id)! * k / totalWeight;
+
+        let best = current;
+        let bestGain = gain(current);
+        for (const id of linkWeights.keys()) {
+          const candidateGain = gain(id);
+          if (candidateGain > bestGain + GAIN_EPSILON) {
+            best = id;
+            bestGain = candidateGain;
+          }
+        }
+
+        communityDegree.set(best, communityDegree.get(best)! + k);
+        if (best !== current) {
+          community.set(node, best);
+          improved = true;
+          moved = true;
+        }
+      }
+    }
+
+    return moved ? community : undefined;
+  }
+
+  /**
+   * Aggregation phase: one node per community, summing the weights between them
+   */
+  private aggregate(graph: WeightedGraph, community: Map<number, number>, labels: Map<number, number>): WeightedGraph {
+    const aggregated: WeightedGraph = new Map(Array.from(labels.values(), label => [label, new Map<number, number>()]));
+
+    for (const [node, links] of graph) {
+      const row = aggregated.get(labels.get(community.get(node)!)!)!;
+      for (const [neighbor, weight] of links) {
+        const target = labels.get(community.get(neighbor)!)!;
+        row.set(target, (row.get(target) ?? 0) + weight);
+      }
+    }
+
+    return aggregated;
+  }
+
+  /**
+   * Group files by community, largest first
+   * Files without imports join the community holding most of their module's files.
+   */
+  private groupCommunities(
+    fileIds: string[],
+    dependencies: FileDependency[],
+    assignment: Map<string, number>,
+    fileToModule: Map<string, Module>
+  ): string[][] {
+    const connected = new Set(dependencies.flatMap(d => [d.from, d.to]));
+    const communityOf = new Map<string, string>();
+    const moduleCommunities = new Map<string, Map<string, number>>();
+
+    for (const fileId of fileIds.filter(id => connected.has(id))) {
+      const community = `${assignment.get(fileId)}`;
+      communityOf.set(fileId, community);
+
+      const moduleId = fileToModule.get(fileId)!.id;
+      const counts = moduleCommunities.get(moduleId) ?? new Map<string, number>();
+      counts.set(community, (counts.get(community) ?? 0) + 1);
+      moduleCommunities.set(moduleId, counts);
+    }
+
+    for (const fileId of fileIds.filter(id => !connected.has(id))) {
+      const moduleId = fileToModule.get(fileId)!.id;
+      const counts = Array.from(moduleCommunities.get(moduleId) ?? []);
+      const largest = counts.reduce<[string, number] | undefined>(
+        (best, entry) => !best || entry[1] > best[1] ? entry : best, undefined);
+      communityOf.set(fileId, largest?.[0] ?? `module:${moduleId}`);
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const fileId of fileIds) {
+      const community = communityOf.get(fileId)!;
+      groups.set(community, [...(groups.get(community) ?? []), fileId]);
+    }
+
+    return Array.from(groups.values())
+      .sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+  }
+
+  /**
+   * Module contributing the most files, ties broken by module ID
+   */
+  private dominantModule(files: string[], fileToModule: Map<string, Module>): Module {
+    const counts = new Map<Module, number>();
+    files.forEach(fileId => {
+      const module = fileToModule.get(fileId)!;
+      counts.set(module, (counts.get(module) ?? 0) + 1);
+    });
+
+    return Array.from(counts)
+      .sort(([a, countA], [b, countB]) => countB - countA || a.id.localeCompare(b.id))[0][0];
+  }
+
+  /**
+   * Modularity contribution of each module: Q_c = L_c / m - resolution * (d_c / 2m)^2,
+   * where L_c is the import weight inside the module and d_c the total weight touching it
+   */
+  private scoreModules(modules: Module[], dependencies: FileDependency[], resolution: number): ModuleModularity[] {
+    const fileToModule = this.dependencyCalculator.mapFilesToModules(modules);
+    const internal = new Map<string, number>();
+    const degree = new Map<string, number>();
+    let totalWeight = 0;
+
+    for (const dependency of dependencies) {
+      const from = fileToModule.get(dependency.from)?.id;
+      const to = fileToModule.get(dependency.to)?.id;
+      if (!from || !to) continue;
+
+      totalWeight += dependency.importCount;
+      degree.set(from, (degree.get(from) ?? 0) + dependency.importCount);
+      degree.set(to, (degree.get(to) ?? 0) + dependency.importCount);
+      if (from === to) internal.set(from, (internal.get(from) ?? 0) + dependency.importCount);
+    }
+
+    return modules
+      .map(m => ({
+        moduleId: m.id,
+        name: m.name,
+        fileCount: m.files.length,
+        modularity: totalWeight > 0
+          ? (internal.get(m.id) ?? 0) / totalWeight - resolution * ((degree.get(m.id) ?? 0) / (2 * totalWeight)) ** 2
+          : 0
+      }))
+      .sort((a, b) => b.modularity - a.modularity || a.moduleId.localeCompare(b.moduleId));
+  }
+
+  private sum(values: Iterable<number>): number {
+    let total = 0;
+    for (const value of values) total += value;
+    return total;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * CycleAnalyzer - Finds dependency cycles between modules and the imports behind them
+ */
+
+import { Module, type FileImportPair } from '../entities/Module.js';
+import { type ModuleProjection } from '../entities/ModuleProjection.js';
+import { GraphAlgorithms } from './GraphAlgorithms.js';
+
+export interface CycleAnalysisOptions {
+  maxCyclesPerComponent?: number;   // Default 50
+  includeTypeOnly?: boolean;        // Count dependencies made only of `import type` (default false)
+}
+
+/**
+ * One dependency of a cycle, with the file-level imports that create it
+ */
+export interface CycleEdge {
+  from: string;                     // module ID
+  to: string;                       // module ID
+  imports: FileImportPair[];
+}
+
+/**
+ * An elementary cycle: each module depends on the next, and the last on the first
+ */
+export interface DependencyCycle {
+  modules: string[];                // starts at the smallest module ID
+  edges: CycleEdge[];
+}
+
+export interface CyclicComponent {
+  modules: string[];                // sorted module IDs
+  cycles: DependencyCycle[];
+  truncated: boolean;               // true when maxCyclesPerComponent cut the list short
+}
+
+export interface CycleAnalysis {
+  components: CyclicComponent[];    // strongly connected components that contain a cycle
+  cycles: DependencyCycle[];        // all cycles, component by component
+}
+
+export class CycleAnalyzer {
+  private algorithms = new GraphAlgorithms();
+
+  /**
+   * Analyze module dependency cycles
+   *
+   * Strongly connected components are found with Tarjan's algorithm. Within
+   * each component, every dependency u -> v is closed into its shortest cycle
+   * (u -> v -> ... -> u), and duplicate cycles are dropped. That yields a small
+   * set of elementary cycles covering every dependency in the component,
+   * independent of module order, so repeated runs report the same cycles.
+   */
+  analyze(modules: Module[], options: CycleAnalysisOptions = {}): CycleAnalysis {
+    const maxCycles = options.maxCyclesPerComponent ?? 50;
+    const byId = new Map(modules.map(m => [m.id, m]));
+
+    const adjacency = new Map<string, string[]>(
+      [...modules]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(m => [m.id, m.getDependencies()
+          .filter(depId => byId.has(depId))
+          .filter(depId => options.includeTypeOnly || !m.isTypeOnlyDependency(depId))
+          .sort()])
+    );
+
+    const components: CyclicComponent[] = this.algorithms.stronglyConnectedComponents(adjacency)
+      .filter(component => this.algorithms.isCyclic(component, adjacency))
+      .map(component => this.analyzeComponent(component.sort(), adjacency, byId, maxCycles))
+      .sort((a, b) => a.modules[0].localeCompare(b.modules[0]));
+
+    return {
+      components,
+      cycles: components.flatMap(c => c.cycles)
+    };
+  }
+
+  /**
+   * Analyze a projection's cycles and record them on it, for getCycles() and getMetrics()
+   */
+  record(projection: ModuleProjection, options: CycleAnalysisOptions = {}): CycleAnalysis {
+    const analysis = this.analyze(projection.getModules(), options);
+    projection.setCycles({
+      components: analysis.components.map(c => c.modules),
+      cycles: analysis.cycles.map(c => c.modules)
+    });
+    return analysis;
+  }
+
+  private analyzeComponent(
+    members: string[],
+    adjacency: Map<string, string[]>,
+    byId: Map<string, Module>,
+    maxCycles: number
+  ): CyclicComponent {
+    const inComponent = new Set(members);
+    const cycles = new Map<string, string[]>();
+    let truncated = false;
+
+    for (const from of members) {
+      for (const to of adjacency.get(from)!.filter(id => inComponent.has(id))) {
+        const cycle = this.normalize([from, ...this.shortestPath(to, from, adjacency, inComponent).slice(0, -1)]);
+        const key = cycle.join('->');
+        if (cycles.has(key)) continue;
+
+        if (cycles.size === maxCycles) {
+          truncated = true;
+          break;
+        }
+        cycles.set(key, cycle);
+      }
+      if (truncated) break;
+    }
+
+    return {
+      modules: members,
+      cycles: Array.from(cycles.values())
+        .sort((a, b) => a.length - b.length || a.join('->').localeCompare(b.join('->')))
+        .map(cycle => this.toDependencyCycle(cycle, byId)),
+      truncated
+    };
+  }
+
+  /**
+   * Breadth-first shortest path from start to goal, staying inside the component
+   * @returns [start, ..., goal]
+   */
+  private shortestPath(start: string, goal: string, adjacency: Map<string, string[]>, inComponent: Set<string>): string[] {
+    const previous = new Map<string, string | null>([[start, null]]);
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === goal) break;
+
+      for (const next of adjacency.get(current)!) {
+        if (inComponent.has(next) && !previous.has(next)) {
+          previous.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+
+    const path: string[] = [];
+    for (let node: string | null | undefined = goal; node; node = previous.get(node)) {
+      path.unshift(node);
+    }
+    return path;
+  }
+
+  /**
+   * Rotate a cycle to start at its smallest module ID
+   */
+  private normalize(cycle: string[]): string[] {
+    const start = cycle.indexOf([...cycle].sort()[0]);
+    return [...cycle.slice(start), ...cycle.slice(0, start)];
+  }
+
+  private toDependencyCycle(cycle: string[], byId: Map<string, Module>): DependencyCycle {
+    return {
+      modules: cycle,
+      edges: cycle.map((from, i) => {
+        const to = cycle[(i + 1) % cycle.length];
+        return { from, to, imports: byId.get(from)!.getDependencyDetails(to)?.filePairs ?? [] };
+      })
+    };
+  }
+}
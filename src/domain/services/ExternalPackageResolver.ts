@@ -0,0 +1,69 @@
+/**
+ * ExternalPackageResolver - Identifies npm packages and Node built-ins behind bare import specifiers
+ */
+
+import { builtinModules } from 'module';
+import { type PackageManifest } from './PackageManifestReader.js';
+import * as path from 'path';
+
+export interface ExternalPackage {
+  packageName: string;        // 'dagre', '@garrick0/c3-shared', 'fs'
+  builtin: boolean;           // Node built-in module
+}
+
+const PACKAGE_NAME = /^(@[a-z0-9~][a-z0-9-._~]*\/)?[a-z0-9~][a-z0-9-._~]*$/i;
+
+export class ExternalPackageResolver {
+  private builtins = new Set(builtinModules);
+
+  /**
+   * Parse a bare import specifier into its package
+   * @returns undefined for relative/absolute paths and specifiers that are not valid package names
+   */
+  parse(specifier: string): ExternalPackage | undefined {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return undefined;
+    }
+
+    if (specifier.startsWith('node:')) {
+      return { packageName: specifier.slice('node:'.length).split('/')[0], builtin: true };
+    }
+
+    const segments = specifier.split('/');
+    const packageName = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+    if (!PACKAGE_NAME.test(packageName)) {
+      return undefined;
+    }
+
+    return { packageName, builtin: this.builtins.has(packageName) };
+  }
+
+  /**
+   * Find the version range declared for a package by the nearest package.json
+   * at or above the importing file that lists it
+   * @param manifests package.json contents by directory
+   */
+  getVersion(packageName: string, importingFile: string, manifests: Map<string, PackageManifest>): string | undefined {
+    let currentDir = path.dirname(importingFile);
+
+    while (true) {
+      const dependencies = manifests.get(currentDir)?.dependencies;
+      if (dependencies && Object.hasOwn(dependencies, packageName)) {
+        return dependencies[packageName];
+      }
+
+      const parentDir = path.dirname(currentDir);
+      if (parentDir === currentDir) {
+        return undefined;
+      }
+      currentDir = parentDir;
+    }
+  }
+
+  /**
+   * Check if any of the package.json manifests declares a package
+   */
+  isDeclared(packageName: string, manifests: Map<string, PackageManifest>): boolean {
+    return Array.from(manifests.values()).some(manifest => Object.hasOwn(manifest.dependencies, packageName));
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * FeedbackArcSetCalculator - Suggests which module dependencies to cut to remove every cycle
+ */
+
+import { ModuleProjection } from '../entities/ModuleProjection.js';
+import { type FileImportPair } from '../entities/Module.js';
+import { GraphAlgorithms } from './GraphAlgorithms.js';
+
+export interface FeedbackArcSetOptions {
+  includeTypeOnly?: boolean;        // Count dependencies made only of `import type` (default false)
+}
+
+/**
+ * A dependency to cut, with the imports that have to be moved or inverted
+ */
+export interface CycleBreakSuggestion {
+  from: string;                     // module ID
+  to: string;                       // module ID
+  weight: number;                   // import statements behind the dependency
+  imports: FileImportPair[];        // files to change, with the symbols they import
+  symbols: string[];                // distinct symbols across all imports
+}
+
+export interface CycleBreakAnalysis {
+  suggestions: CycleBreakSuggestion[];   // heaviest first
+  totalWeight: number;
+  cyclicComponents: number;
+}
+
+type WeightedGraph = Map<string, Map<string, number>>;
+
+export class FeedbackArcSetCalculator {
+  private algorithms = new GraphAlgorithms();
+
+  /**
+   * Compute an approximate minimum-weight feedback arc set
+   *
+   * Each cyclic component is ordered with the weighted Eades-Lin-Smyth
+   * heuristic (peel off sinks and sources, otherwise take the module whose
+   * outgoing import weight most exceeds its incoming weight); dependencies
+   * pointing backwards in that order break every cycle. Backward edges are then
+   * restored, heaviest first, whenever doing so does not close a cycle again,
+   * so no suggestion is redundant.
+   */
+  calculate(projection: ModuleProjection, options: FeedbackArcSetOptions = {}): CycleBreakAnalysis {
+    const modules = [...projection.getModules()].sort((a, b) => a.id.localeCompare(b.id));
+
+    const graph: WeightedGraph = new Map(modules.map(m => [m.id, new Map(
+      m.getDependencies()
+        .filter(depId => projection.getModule(depId))
+        .filter(depId => options.includeTypeOnly || !m.isTypeOnlyDependency(depId))
+        .sort()
+        .map(depId => [depId, Math.max(m.getImportCount(depId), 1)])
+    )]));
+
+    const adjacency = new Map(Array.from(graph, ([id, targets]) => [id, Array.from(targets.keys())]));
+    const components = this.algorithms.stronglyConnectedComponents(adjacency)
+      .filter(component => this.algorithms.isCyclic(component, adjacency));
+
+    const cuts: Array<{ from: string; to: string; weight: number }> = [];
+    for (const component of components) {
+      cuts.push(...this.breakComponent(component.sort(), graph));
+    }
+
+    const suggestions = cuts
+      .map(cut => {
+        const details = projection.getModule(cut.from)!.getDependencyDetails(cut.to);
+        return {
+          from: cut.from,
+          to: cut.to,
+          weight: cut.weight,
+          imports: details?.filePairs ?? [],
+          symbols: details?.symbols ?? []
+        };
+      })
+      .sort((a, b) => b.weight - a.weight || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+    return {
+      suggestions,
+      totalWeight: suggestions.reduce((sum, s) => sum + s.weight, 0),
+      cyclicComponents: components.length
+    };
+  }
+
+  /**
+   * Find the edges to cut inside one strongly connected component
+   */
+  private breakComponent(members: string[], graph: WeightedGraph): Array<{ from: string; to: string; weight: number }> {
+    const inComponent = new Set(members);
+    const edges = members.flatMap(from => Array.from(graph.get(from)!)
+      .filter(([to]) => inComponent.has(to))
+      .map(([to, weight]) => ({ from, to, weight })));
+
+    const position = new Map(this.order(members, edges).map((id, index) => [id, index]));
+    const kept = edges.filter(e => position.get(e.from)! < position.get(e.to)!);
+    const backward = edges
+      .filter(e => position.get(e.from)! >= position.get(e.to)!)
+      .sort((a, b) => b.weight - a.weight || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+    const successors = new Map<string, Set<string>>(members.map(id => [id, new Set()]));
+    kept.forEach(e => successors.get(e.from)!.add(e.to));
+
+    const cuts: Array<{ from: string; to: string; weight: number }> = [];
+    for (const edge of backward) {
+      if (edge.from !== edge.to && !this.reaches(edge.to, edge.from, successors)) {
+        successors.get(edge.from)!.add(edge.to);
+      } else {
+        cuts.push(edge);
+      }
+    }
+
+    return cuts;
+  }
+
+  /**
+   * Weighted Eades-Lin-Smyth vertex ordering
+   */
+  private order(members: string[], edges: Array<{ from: string; to: string; weight: number }>): string[] {
+    const remaining = new Set(members);
+    const outgoing = new Map<string, Map<string, number>>(members.map(id => [id, new Map()]));
+    const incoming = new Map<string, Map<string, number>>(members.map(id => [id, new Map()]));
+    for (const e of edges) {
+      if (e.from === e.to) continue;
+      outgoing.get(e.from)!.set(e.to, e.weight);
+      incoming.get(e.to)!.set(e.from, e.weight);
+    }
+
+    const weightOf = (links: Map<string, number>) =>
+      Array.from(links).reduce((sum, [id, weight]) => sum + (remaining.has(id) ? weight : 0), 0);
+    const hasLinks = (links: Map<string, number>) =>
+      Array.from(links.keys()).some(id => remaining.has(id));
+
+    const head: string[] = [];
+    const tail: string[] = [];
+
+    while (remaining.size > 0) {
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const id of Array.from(remaining)) {
+          if (!hasLinks(outgoing.get(id)!)) {
+            tail.unshift(id);
+            remaining.delete(id);
+            changed = true;
+          } else if (!hasLinks(incoming.get(id)!)) {
+            head.push(id);
+            remaining.delete(id);
+            changed = true;
+          }
+        }
+      }
+
+      if (remaining.size === 0) break;
+
+      let best: string | undefined;
+      let bestDelta = -Infinity;
+      for (const id of remaining) {
+        const delta = weightOf(outgoing.get(id)!) - weightOf(incoming.get(id)!);
+        if (delta > bestDelta) {
+          best = id;
+          bestDelta = delta;
+        }
+      }
+      head.push(best!);
+      remaining.delete(best!);
+    }
+
+    return [...head, ...tail];
+  }
+
+  /**
+   * Check if goal is reachable from start
+   */
+  private reaches(start: string, goal: string, successors: Map<string, Set<string>>): boolean {
+    const visited = new Set<string>([start]);
+    const stack = [start];
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === goal) return true;
+
+      for (const next of successors.get(current)!) {
+        if (!visited.has(next)) {
+          visited.add(next);
+          stack.push(next);
+        }
+      }
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * GraphAlgorithms - Generic algorithms over directed adjacency lists
+ */
+
+export type AdjacencyList = Map<string, Iterable<string>>;
+
+export class GraphAlgorithms {
+  /**
+   * Find strongly connected components using Tarjan's algorithm
+   *
+   * Components are returned in reverse topological order: a component is
+   * emitted only after every component it can reach, so dependencies come
+   * before their dependents. Successors missing from the adjacency list are
+   * ignored. Implemented iteratively to cope with deep dependency chains.
+   */
+  stronglyConnectedComponents(adjacency: AdjacencyList): string[][] {
+    const indexOf = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    const successorsOf = (id: string): string[] =>
+      Array.from(adjacency.get(id) ?? []).filter(s => adjacency.has(s));
+
+    for (const start of adjacency.keys()) {
+      if (indexOf.has(start)) continue;
+
+      const work: Array<{ id: string; successors: string[]; next: number }> = [];
+      const visit = (id: string) => {
+        indexOf.set(id, nextIndex);
+        lowLink.set(id, nextIndex);
+        nextIndex++;
+        stack.push(id);
+        onStack.add(id);
+        work.push({ id, successors: successorsOf(id), next: 0 });
+      };
+
+      visit(start);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+
+        if (frame.next < frame.successors.length) {
+          const successor = frame.successors[frame.next++];
+          if (!indexOf.has(successor)) {
+            visit(successor);
+          } else if (onStack.has(successor)) {
+            lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, indexOf.get(successor)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1];
+          lowLink.set(parent.id, Math.min(lowLink.get(parent.id)!, lowLink.get(frame.id)!));
+        }
+
+        if (lowLink.get(frame.id) === indexOf.get(frame.id)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.id);
+          components.push(component);
+        }
+      }
+    }
+
+    return components;
+  }
+
+  /**
+   * Check if a component forms a cycle (more than one node, or a self-loop)
+   */
+  isCyclic(component: string[], adjacency: AdjacencyList): boolean {
+    if (component.length > 1) return true;
+    const successors = adjacency.get(component[0]);
+    return successors ? Array.from(successors).includes(component[0]) : false;
+  }
+}
@@ -3,18 +3,41 @@
  */
 
 import { Logger } from '@garrick0/c3-shared';
-import { GraphView, type GraphViewNode, type GraphViewEdge, type GraphViewMetadata } from '../entities/GraphView.js';
-import { ModuleProjection } from '../entities/ModuleProjection.js';
+import {
+  GraphView,
+  type GraphViewNode,
+  type GraphViewEdge,
+  type GraphViewMetadata,
+  type GraphViewCluster
+} from '../entities/GraphView.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../entities/ModuleProjection.js';
 import { Module } from '../entities/Module.js';
+import { type LayerDefinition } from '../entities/LayerProjection.js';
+import { GlobPattern } from '../value-objects/GlobPattern.js';
+import { MetricsCalculator, type CentralityMetrics } from './MetricsCalculator.js';
+import * as path from 'path';
 
 export interface GraphViewConfig {
-  includeMetrics?: boolean;
-  colorScheme?: 'default' | 'complexity' | 'dependencies';
-  nodeSize?: 'fixed' | 'proportional';
+  includeMetrics?: boolean;  // Node metrics in metadata unless false; true also computes centrality
+  colorScheme?: 'default' | 'complexity' | 'dependencies' | 'distance' | 'centrality';
+  nodeSize?: 'fixed' | 'proportional' | 'centrality';
   showLabels?: boolean;
+  clusterBy?: 'none' | 'parent' | 'directory' | 'layer';  // Group nodes into boxes by parent module, parent directory or layer
+  layers?: LayerDefinition[];  // clusterBy 'layer' only, matched against module paths relative to the projection root
+}
+
+/**
+ * Module centrality, with the largest values in the view used to scale the centrality schemes
+ */
+interface ViewCentrality {
+  metrics: Map<string, CentralityMetrics>;
+  maxBetweenness: number;
+  maxPageRank: number;
 }
 
 export class GraphViewBuilder {
+  private metricsCalculator = new MetricsCalculator();
+
   constructor(private logger: Logger) {}
 
   /**
@@ -26,8 +49,14 @@ export class GraphViewBuilder {
       config
     });
 
-    const nodes = this.createNodes(projection.getModules(), config);
-    const edges = this.createEdges(projection.getModules(), config);
+    const { nodes, clusters } = this.createClusters(
+      projection,
+      this.createNodes(projection.getModules(), config, this.calculateCentrality(projection, config)),
+      config
+    );
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const edges = this.createEdges(projection.getModules(), config)
+      .filter(e => nodeIds.has(e.from) && nodeIds.has(e.to));
 
     const metadata: GraphViewMetadata = {
       projectionType: 'module-dependency',
@@ -40,29 +69,50 @@ export class GraphViewBuilder {
       `view-${Date.now()}`,
       nodes,
       edges,
-      metadata
+      metadata,
+      clusters
     );
 
     this.logger.info('GraphView created', {
       nodes: view.getNodeCount(),
-      edges: view.getEdgeCount()
+      edges: view.getEdgeCount(),
+      clusters: clusters.length
     });
 
     return view;
   }
 
+  /**
+   * Compute module centrality when a centrality scheme or includeMetrics asks for it
+   */
+  private calculateCentrality(projection: ModuleProjection, config: GraphViewConfig): ViewCentrality {
+    const needed = config.includeMetrics === true
+      || config.colorScheme === 'centrality'
+      || config.nodeSize === 'centrality';
+    const metrics = needed
+      ? this.metricsCalculator.calculateModuleCentrality(projection)
+      : new Map<string, CentralityMetrics>();
+    const values = Array.from(metrics.values());
+
+    return {
+      metrics,
+      maxBetweenness: Math.max(0, ...values.map(c => c.betweenness)),
+      maxPageRank: Math.max(0, ...values.map(c => c.pageRank))
+    };
+  }
+
   /**
    * Create GraphViewNodes from Modules
    */
-  private createNodes(modules: Module[], config: GraphViewConfig): GraphViewNode[] {
+  private createNodes(modules: Module[], config: GraphViewConfig, centrality: ViewCentrality): GraphViewNode[] {
     return modules.map(module => {
       const node: GraphViewNode = {
         id: module.id,
         label: config.showLabels !== false ? module.name : '',
-        type: 'module',
-        color: this.getNodeColor(module, config.colorScheme),
-        width: this.getNodeWidth(module, config.nodeSize),
-        height: this.getNodeHeight(module, config.nodeSize),
+        type: this.getNodeType(module),
+        color: module.external ? this.getExternalNodeColor(module) : this.getNodeColor(module, config.colorScheme, centrality),
+        width: this.getNodeWidth(module, config.nodeSize, centrality),
+        height: this.getNodeHeight(module, config.nodeSize, centrality),
         metadata: {}
       };
 
@@ -75,6 +125,22 @@ export class GraphViewBuilder {
           totalLines: module.metrics.totalLines,
           path: module.path
         };
+
+        if (module.metrics.distance !== undefined) {
+          node.metadata.afferentCoupling = module.metrics.afferentCoupling;
+          node.metadata.efferentCoupling = module.metrics.efferentCoupling;
+          node.metadata.instability = module.metrics.instability;
+          node.metadata.abstractness = module.metrics.abstractness;
+          node.metadata.distance = module.metrics.distance;
+        }
+
+        Object.assign(node.metadata, centrality.metrics.get(module.id));
+      }
+
+      if (module.external) {
+        node.metadata.external = true;
+        node.metadata.packageName = module.external.packageName;
+        node.metadata.version = module.external.version;
       }
 
       return node;
@@ -83,17 +149,29 @@ export class GraphViewBuilder {
 
   /**
    * Create GraphViewEdges from Module dependencies
+   * Edge weight is the number of import statements behind the dependency
+   * (1 when the dependency has no recorded imports).
    */
   private createEdges(modules: Module[], config: GraphViewConfig): GraphViewEdge[] {
     const edges: GraphViewEdge[] = [];
 
     for (const module of modules) {
       for (const depId of module.dependencies) {
+        const details = module.getDependencyDetails(depId);
+        const importCount = details?.importCount ?? 1;
+
         edges.push({
           id: `${module.id}-${depId}`,
           from: module.id,
           to: depId,
-          metadata: {}
+          weight: importCount,
+          metadata: {
+            importCount,
+            filePairCount: details?.filePairs.length ?? 0,
+            symbols: details?.symbols ?? [],
+            importKinds: details?.kinds ?? [],
+            typeOnly: module.isTypeOnlyDependency(depId)
+          }
         });
       }
     }
@@ -101,10 +179,113 @@ export class GraphViewBuilder {
     return edges;
   }
 
+  /**
+   * Group nodes into clusters, setting each node's parentId
+   * - parent: modules with children in a nested projection become clusters; they
+   *   stay nodes (inside their own cluster) only if they hold files themselves
+   * - directory: modules are grouped by the directory containing them, relative
+   *   to the projection root; external modules and top-level modules stay outside
+   * - layer: modules are grouped by the first layer whose globs match their path
+   *   relative to the projection root, as in LayerProjectionStrategy; clusters
+   *   follow the declaration order and modules outside every layer stay outside
+   */
+  private createClusters(
+    projection: ModuleProjection,
+    nodes: GraphViewNode[],
+    config: GraphViewConfig
+  ): { nodes: GraphViewNode[]; clusters: GraphViewCluster[] } {
+    const clusterBy = config.clusterBy ?? 'none';
+
+    if (clusterBy === 'parent') {
+      const clusterId = (moduleId?: string) =>
+        moduleId && projection.getModule(moduleId) ? `cluster:${moduleId}` : undefined;
+
+      const clusters = projection.getModules()
+        .filter(m => m.hasChildren())
+        .map(m => ({ id: `cluster:${m.id}`, label: m.name, parentId: clusterId(m.parentId) }));
+
+      const kept = nodes.filter(node => {
+        const module = projection.getModule(node.id)!;
+        return !module.hasChildren() || module.files.length > 0;
+      });
+      for (const node of kept) {
+        const module = projection.getModule(node.id)!;
+        node.parentId = clusterId(module.hasChildren() ? module.id : module.parentId);
+      }
+
+      return { nodes: kept, clusters };
+    }
+
+    if (clusterBy === 'directory') {
+      const rootPath = (projection.metadata as ModuleProjectionMetadata).rootPath ?? '';
+      const clusters = new Map<string, GraphViewCluster>();
+
+      for (const node of nodes) {
+        const module = projection.getModule(node.id)!;
+        if (module.isExternal()) continue;
+
+        const directory = path.relative(rootPath, path.dirname(module.path)).replace(/\\/g, '/');
+        if (!directory || directory.startsWith('..') || path.isAbsolute(directory)) continue;
+
+        const id = `cluster:${directory}`;
+        if (!clusters.has(id)) clusters.set(id, { id, label: directory });
+        node.parentId = id;
+      }
+
+      return { nodes, clusters: Array.from(clusters.values()) };
+    }
+
+    if (clusterBy === 'layer') {
+      const definitions = config.layers ?? [];
+      if (definitions.length === 0) {
+        throw new Error('Clustering by layer requires at least one layer in the "layers" option');
+      }
+
+      const rootPath = (projection.metadata as ModuleProjectionMetadata).rootPath ?? '';
+      const patterns = new Map(definitions.map(d => [d.name, d.paths.map(p => GlobPattern.create(p))]));
+      const used = new Set<string>();
+
+      for (const node of nodes) {
+        const module = projection.getModule(node.id)!;
+        if (module.isExternal()) continue;
+
+        const relativePath = path.relative(rootPath, module.path) || '.';
+        const layer = definitions.find(d => patterns.get(d.name)!.some(p => p.matches(relativePath)));
+        if (!layer) continue;
+
+        used.add(layer.name);
+        node.parentId = `cluster:${layer.name}`;
+      }
+
+      const clusters = definitions
+        .filter(d => used.has(d.name))
+        .map(d => ({ id: `cluster:${d.name}`, label: d.name }));
+
+      return { nodes, clusters };
+    }
+
+    return { nodes, clusters: [] };
+  }
+
+  /**
+   * Get node type: 'module', or 'external'/'builtin' for synthetic package modules
+   */
+  private getNodeType(module: Module): string {
+    if (!module.external) return 'module';
+    return module.external.builtin ? 'builtin' : 'external';
+  }
+
+  /**
+   * External modules keep a fixed color so they stand apart from every scheme
+   */
+  private getExternalNodeColor(module: Module): string {
+    return module.external!.builtin ? '#778ca3' : '#a4b0be';
+  }
+
   /**
    * Get node color based on color scheme
    */
-  private getNodeColor(module: Module, scheme?: string): string {
+  private getNodeColor(module: Module, scheme: string | undefined, centrality: ViewCentrality): string {
     if (scheme === 'complexity') {
       // Color by file count
       if (module.metrics.fileCount > 50) return '#ff6b6b';
@@ -120,13 +301,35 @@ export class GraphViewBuilder {
       return '#1dd1a1'; // Leaf nodes (no dependencies)
     }
 
+    if (scheme === 'distance' && module.metrics.distance !== undefined) {
+      // Color by distance from the main sequence
+      if (module.metrics.distance >= 0.7) return '#ff6b6b';
+      if (module.metrics.distance >= 0.4) return '#feca57';
+      return '#1dd1a1';
+    }
+
+    if (scheme === 'centrality') {
+      // Color by betweenness relative to the view's most central module
+      const betweenness = centrality.metrics.get(module.id)?.betweenness ?? 0;
+      const ratio = centrality.maxBetweenness > 0 ? betweenness / centrality.maxBetweenness : 0;
+      if (ratio >= 0.66) return '#ff6b6b';
+      if (ratio >= 0.33) return '#feca57';
+      if (ratio > 0) return '#48dbfb';
+      return '#1dd1a1';  // Not on any shortest path
+    }
+
     return '#4ecdc4';  // default
   }
 
   /**
    * Get node width based on size configuration
    */
-  private getNodeWidth(module: Module, sizeMode?: string): number {
+  private getNodeWidth(module: Module, sizeMode: string | undefined, centrality: ViewCentrality): number {
+    if (sizeMode === 'centrality') {
+      // Size based on PageRank relative to the highest-ranked module
+      return 80 + Math.round(100 * this.pageRankRatio(module, centrality));
+    }
+
     if (sizeMode === 'proportional') {
       // Size based on file count
       const baseWidth = 80;
@@ -140,7 +343,11 @@ export class GraphViewBuilder {
   /**
    * Get node height based on size configuration
    */
-  private getNodeHeight(module: Module, sizeMode?: string): number {
+  private getNodeHeight(module: Module, sizeMode: string | undefined, centrality: ViewCentrality): number {
+    if (sizeMode === 'centrality') {
+      return 40 + Math.round(30 * this.pageRankRatio(module, centrality));
+    }
+
     if (sizeMode === 'proportional') {
       // Size based on file count
       const baseHeight = 40;
@@ -150,5 +357,9 @@ export class GraphViewBuilder {
 
     return 50; // fixed height
   }
-}
 
+  private pageRankRatio(module: Module, centrality: ViewCentrality): number {
+    const pageRank = centrality.metrics.get(module.id)?.pageRank ?? 0;
+    return centrality.maxPageRank > 0 ? pageRank / centrality.maxPageRank : 0;
+  }
+}
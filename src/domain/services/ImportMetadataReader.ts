@@ -0,0 +1,61 @@
+/**
+ * ImportMetadataReader - Reads import details from PropertyGraph IMPORTS edge metadata
+ *
+ * Missing or mistyped fields read as absent: no symbols, a value import, no line.
+ */
+
+import { type Edge } from '@garrick0/c3-parsing';
+import { ImportKind } from '../value-objects/ImportKind.js';
+
+/**
+ * Metadata the TypeScript extension of c3-parsing records on IMPORTS edges
+ */
+export interface ImportEdgeMetadata {
+  importedSymbols?: string[];   // Names bound by the statement ('default', '*' for namespaces); [] for `import './x'`
+  isTypeOnly?: boolean;         // import type { X } from './x'
+  isDynamic?: boolean;          // await import('./x')
+  isReExport?: boolean;         // export * from './x', export { x } from './x'
+  lineNumber?: number;          // 1-based line of the statement in the importing file
+}
+
+export class ImportMetadataReader {
+  /**
+   * Names imported by the statement
+   */
+  getSymbols(edge: Edge): string[] {
+    const symbols = this.metadata(edge).importedSymbols;
+    if (!Array.isArray(symbols)) return [];
+
+    return Array.from(new Set(symbols.filter((name): name is string => typeof name === 'string' && name !== '')));
+  }
+
+  /**
+   * Classify an import statement
+   * Re-export, dynamic and type-only flags are checked in that order; an empty
+   * list of imported names means a side-effect import. Defaults to a value import.
+   */
+  getKind(edge: Edge): ImportKind {
+    const metadata = this.metadata(edge);
+
+    if (metadata.isReExport === true) return ImportKind.RE_EXPORT;
+    if (metadata.isDynamic === true) return ImportKind.DYNAMIC;
+    if (metadata.isTypeOnly === true) return ImportKind.TYPE_ONLY;
+    if (Array.isArray(metadata.importedSymbols) && this.getSymbols(edge).length === 0) {
+      return ImportKind.SIDE_EFFECT;
+    }
+
+    return ImportKind.VALUE;
+  }
+
+  /**
+   * 1-based line of the import statement in the importing file, if the parser recorded it
+   */
+  getLine(edge: Edge): number | undefined {
+    const line = this.metadata(edge).lineNumber;
+    return Number.isInteger(line) && line! > 0 ? line : undefined;
+  }
+
+  private metadata(edge: Edge): ImportEdgeMetadata {
+    return (edge.metadata ?? {}) as ImportEdgeMetadata;
+  }
+}
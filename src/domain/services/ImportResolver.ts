@@ -0,0 +1,273 @@
+/**
+ * ImportResolver - Resolves PropertyGraph IMPORTS edges to FILE node IDs
+ *
+ * c3-parsing emits IMPORTS edges whose toNodeId is the raw import specifier
+ * (e.g. '../domain/entities/Module.js'), so the target file has to be found
+ * by path before any file-level or module-level analysis can use the edge.
+ */
+
+import { PropertyGraph, type Edge } from '@garrick0/c3-parsing';
+import { type WorkspacePackage } from './WorkspaceDiscovery.js';
+import { type TsConfigPathMapping } from './TsConfigLoader.js';
+import { ExternalPackageResolver, type ExternalPackage } from './ExternalPackageResolver.js';
+import { type PackageManifest } from './PackageManifestReader.js';
+import { type UnresolvedImport, type UnresolvedImportCategory } from '../value-objects/ImportDiagnostics.js';
+import * as path from 'path';
+
+export interface ImportResolverOptions {
+  workspacePackages?: WorkspacePackage[];  // Resolve bare imports of workspace package names
+  pathMapping?: TsConfigPathMapping;       // Resolve tsconfig `paths` aliases and `baseUrl` imports
+  packageManifests?: Map<string, PackageManifest>;  // package.json by directory, to tell npm packages from aliases
+}
+
+// Files the parser does not emit FILE nodes for: assets, data, and module formats resolvePath() does not try
+const UNSUPPORTED_EXTENSION = /\.(css|scss|sass|less|json|svg|png|jpe?g|gif|webp|ico|woff2?|ttf|html|md|ya?ml|graphql|gql|vue|svelte|wasm|txt|mjs|cjs|mts|cts)$/i;
+
+export class ImportResolver {
+  private pathToNodeId = new Map<string, string>();
+  private nodeIdToPath = new Map<string, string>();
+  private packageEntries = new Map<string, string | undefined>();
+  private externalPackageResolver = new ExternalPackageResolver();
+
+  constructor(
+    graph: PropertyGraph,
+    private options: ImportResolverOptions = {}
+  ) {
+    // IMPORTANT: Only index FILE nodes, not classes, functions, etc.
+    for (const node of graph.getNodes()) {
+      const filePath = node.metadata?.filePath;
+      if (filePath && (node.type === 'file' || node.labels?.has('File'))) {
+        this.pathToNodeId.set(filePath, node.id);
+        this.pathToNodeId.set(path.normalize(filePath), node.id);
+        this.nodeIdToPath.set(node.id, filePath);
+      }
+    }
+  }
+
+  /**
+   * Resolve the target of an import edge to a FILE node ID
+   * @returns The FILE node ID, or undefined for external or unresolvable imports
+   */
+  resolve(edge: Edge): string | undefined {
+    return this.resolveTarget(edge);
+  }
+
+  /**
+   * Explain why an import edge does not resolve
+   * @returns undefined when the edge resolves to a FILE node
+   */
+  diagnose(edge: Edge): UnresolvedImport | undefined {
+    const attempts: string[] = [];
+    if (this.resolveTarget(edge, attempts)) {
+      return undefined;
+    }
+
+    return {
+      specifier: edge.toNodeId,
+      file: this.nodeIdToPath.get(edge.fromNodeId) ?? edge.fromNodeId,
+      attempts: Array.from(new Set(attempts)),
+      category: this.categorize(edge.toNodeId)
+    };
+  }
+
+  private resolveTarget(edge: Edge, attempts?: string[]): string | undefined {
+    const target = edge.toNodeId;
+
+    // Already a FILE node ID
+    if (this.nodeIdToPath.has(target)) {
+      return target;
+    }
+
+    // Absolute path to a known file
+    const byPath = this.pathToNodeId.get(target);
+    if (byPath) {
+      return byPath;
+    }
+
+    // Relative import, resolved against the importing file
+    const sourceFilePath = this.nodeIdToPath.get(edge.fromNodeId);
+    if (sourceFilePath && (target.startsWith('./') || target.startsWith('../'))) {
+      const resolved = path.resolve(path.dirname(sourceFilePath), target);
+      return this.resolvePath(resolved, attempts);
+    }
+
+    // tsconfig alias or baseUrl import, then bare import of a workspace package
+    return this.resolveAliasImport(target, attempts) ?? this.resolveWorkspaceImport(target, attempts);
+  }
+
+  /**
+   * Identify the npm package or Node built-in behind a bare import specifier
+   * Specifiers matching a path alias or workspace package, or shaped like an alias
+   * ('@/x', '~/x', '#x'), are not packages. With packageManifests loaded, neither
+   * are packages no package.json declares, such as an unmapped '@app/x'.
+   * @returns undefined for paths, aliases and specifiers that are not package names
+   */
+  getExternalPackage(specifier: string): ExternalPackage | undefined {
+    const mapping = this.options.pathMapping;
+    const isAlias = /^[@~]\//.test(specifier)
+      || specifier.startsWith('#')
+      || (mapping !== undefined && this.matchPathPattern(specifier, Object.keys(mapping.paths)) !== undefined)
+      || this.options.workspacePackages?.some(p => specifier === p.name || specifier.startsWith(p.name + '/'));
+    if (isAlias) return undefined;
+
+    const externalPackage = this.externalPackageResolver.parse(specifier);
+    const manifests = this.options.packageManifests;
+    if (!externalPackage || externalPackage.builtin || !manifests) {
+      return externalPackage;
+    }
+
+    return this.externalPackageResolver.isDeclared(externalPackage.packageName, manifests) ? externalPackage : undefined;
+  }
+
+  /**
+   * Guess the category of an unresolved specifier
+   */
+  private categorize(specifier: string): UnresolvedImportCategory {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return UNSUPPORTED_EXTENSION.test(specifier) ? 'unsupported-extension' : 'missing-file';
+    }
+
+    return this.getExternalPackage(specifier) ? 'external' : 'alias';
+  }
+
+  /**
+   * Resolve a non-relative specifier through tsconfig `paths`, then `baseUrl`
+   * Like TypeScript, an exact pattern wins over wildcards, the wildcard with the
+   * longest prefix wins among wildcards, and targets are tried in order.
+   */
+  private resolveAliasImport(specifier: string, attempts?: string[]): string | undefined {
+    const mapping = this.options.pathMapping;
+    if (!mapping) return undefined;
+
+    const match = this.matchPathPattern(specifier, Object.keys(mapping.paths));
+    if (match) {
+      for (const target of mapping.paths[match.pattern]) {
+        const substituted = target.replace('*', match.wildcard);
+        const nodeId = this.resolvePath(path.resolve(mapping.pathsBasePath, substituted), attempts);
+        if (nodeId) return nodeId;
+      }
+    }
+
+    if (mapping.baseUrl) {
+      return this.resolvePath(path.resolve(mapping.baseUrl, specifier), attempts);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the best matching `paths` pattern and the text matched by its wildcard
+   */
+  private matchPathPattern(specifier: string, patterns: string[]): { pattern: string; wildcard: string } | undefined {
+    if (patterns.includes(specifier)) {
+      return { pattern: specifier, wildcard: '' };
+    }
+
+    let best: { pattern: string; wildcard: string; prefixLength: number } | undefined;
+
+    for (const pattern of patterns) {
+      const star = pattern.indexOf('*');
+      if (star === -1) continue;
+
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (specifier.length < prefix.length + suffix.length) continue;
+      if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue;
+
+      if (!best || prefix.length > best.prefixLength) {
+        best = {
+          pattern,
+          wildcard: specifier.slice(prefix.length, specifier.length - suffix.length),
+          prefixLength: prefix.length
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Resolve a bare specifier against the workspace packages
+   */
+  private resolveWorkspaceImport(specifier: string, attempts?: string[]): string | undefined {
+    const workspacePackage = this.options.workspacePackages?.find(p =>
+      specifier === p.name || specifier.startsWith(p.name + '/'));
+    if (!workspacePackage) return undefined;
+
+    const subpath = specifier.slice(workspacePackage.name.length + 1);
+    if (subpath) {
+      return this.resolvePath(path.join(workspacePackage.path, subpath), attempts)
+        ?? this.resolvePath(path.join(workspacePackage.path, 'src', subpath), attempts);
+    }
+
+    if (!this.packageEntries.has(workspacePackage.name)) {
+      this.packageEntries.set(workspacePackage.name, this.findPackageEntry(workspacePackage));
+    }
+    return this.packageEntries.get(workspacePackage.name);
+  }
+
+  /**
+   * Find the source file behind a package's entry point
+   * Build output paths (dist/, lib/, build/) are mapped back to src/, and a
+   * package without a resolvable entry falls back to its first file so the
+   * dependency is still attributed to the right package.
+   */
+  private findPackageEntry(workspacePackage: WorkspacePackage): string | undefined {
+    const entries = [workspacePackage.types, workspacePackage.module, workspacePackage.main]
+      .filter((entry): entry is string => Boolean(entry))
+      .map(entry => entry.replace(/^\.\//, '').replace(/\.d\.ts$/, '').replace(/\.(m|c)?js$/, ''));
+
+    const candidates = [
+      ...entries,
+      ...entries.map(entry => entry.replace(/^(dist|lib|build)\//, 'src/')),
+      'src/index',
+      'index'
+    ];
+
+    for (const candidate of candidates) {
+      const nodeId = this.resolvePath(path.join(workspacePackage.path, candidate));
+      if (nodeId) return nodeId;
+    }
+
+    const packagePrefix = workspacePackage.path + path.sep;
+    const firstFile = Array.from(this.nodeIdToPath.entries())
+      .filter(([, filePath]) => filePath.startsWith(packagePrefix))
+      .sort(([, a], [, b]) => a.localeCompare(b))[0];
+
+    return firstFile?.[0];
+  }
+
+  /**
+   * Resolve an absolute path (without or with a JS/TS extension) to a FILE node ID
+   * @param attempts Collects the candidate paths tried, when given
+   */
+  resolvePath(resolved: string, attempts?: string[]): string | undefined {
+    // Try with original extension and common TypeScript extensions
+    const candidates = [
+      resolved,
+      path.normalize(resolved),
+      resolved.replace(/\.js$/, '.ts'),
+      resolved.replace(/\.jsx$/, '.tsx'),
+      resolved + '.ts',
+      resolved + '.tsx',
+      resolved + '.js',
+      resolved + '/index.ts',
+      resolved + '/index.js'
+    ];
+
+    for (const candidate of candidates) {
+      attempts?.push(candidate);
+      const nodeId = this.pathToNodeId.get(candidate);
+      if (nodeId) return nodeId;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the file path of a FILE node
+   */
+  getFilePath(nodeId: string): string | undefined {
+    return this.nodeIdToPath.get(nodeId);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * ImportResolverOptionsLoader - Service for collecting the project settings import resolution depends on
+ */
+
+import { PropertyGraph, EdgeType, type Edge } from '@garrick0/c3-parsing';
+import { Logger } from '@garrick0/c3-shared';
+import { ViewConfiguration } from '../value-objects/ViewConfiguration.js';
+import { AggregationLevel } from '../value-objects/AggregationLevel.js';
+import { type ImportResolverOptions } from './ImportResolver.js';
+import { WorkspaceDiscovery } from './WorkspaceDiscovery.js';
+import { TsConfigLoader } from './TsConfigLoader.js';
+import { ExternalPackageResolver } from './ExternalPackageResolver.js';
+import { PackageManifestReader, type PackageManifest } from './PackageManifestReader.js';
+import * as path from 'path';
+
+export class ImportResolverOptionsLoader {
+  private workspaceDiscovery: WorkspaceDiscovery;
+  private tsConfigLoader: TsConfigLoader;
+  private externalPackageResolver = new ExternalPackageResolver();
+  private manifestReader = new PackageManifestReader();
+
+  constructor(private logger: Logger) {
+    this.workspaceDiscovery = new WorkspaceDiscovery(logger);
+    this.tsConfigLoader = new TsConfigLoader(logger);
+  }
+
+  /**
+   * Discover workspace packages and tsconfig path aliases for a project
+   * ViewConfiguration.options.tsconfigPath (relative to rootPath) overrides the
+   * nearest tsconfig.json. A tsconfig that cannot be read is logged and skipped.
+   * Workspace packages are only looked for when they can matter: at PACKAGE
+   * level, or when the graph imports packages by name (without a graph, always).
+   * With a graph, the package.json files above files importing packages by name
+   * are read as well.
+   */
+  async load(rootPath: string, config: ViewConfiguration, graph?: PropertyGraph): Promise<ImportResolverOptions> {
+    const workspacePackages = this.needsWorkspacePackages(config, graph)
+      ? await this.workspaceDiscovery.discover(rootPath)
+      : [];
+    const packageManifests = graph ? await this.loadPackageManifests(graph) : undefined;
+
+    let pathMapping;
+    try {
+      pathMapping = await this.tsConfigLoader.load(rootPath, config.getOption<string>('tsconfigPath'));
+    } catch (error) {
+      this.logger.warn('Ignoring tsconfig path aliases', { error: (error as Error).message });
+    }
+
+    return { workspacePackages, pathMapping, packageManifests };
+  }
+
+  /**
+   * Check for PACKAGE level or an import of a package that is not a Node built-in
+   */
+  private needsWorkspacePackages(config: ViewConfiguration, graph?: PropertyGraph): boolean {
+    if (!graph || config.aggregationLevel === AggregationLevel.PACKAGE) {
+      return true;
+    }
+
+    return graph.getEdges().some(edge => this.importsPackage(edge, graph));
+  }
+
+  /**
+   * Read the package.json in every directory at or above a file that imports a package
+   * @returns manifests by directory, for the directories that have one
+   */
+  private async loadPackageManifests(graph: PropertyGraph): Promise<Map<string, PackageManifest>> {
+    const manifests = new Map<string, PackageManifest>();
+    const visited = new Set<string>();
+
+    for (const edge of graph.getEdges()) {
+      const filePath = graph.getNode(edge.fromNodeId)?.metadata?.filePath;
+      if (!filePath || !this.importsPackage(edge, graph)) continue;
+
+      let currentDir = path.dirname(filePath);
+      while (!visited.has(currentDir)) {
+        visited.add(currentDir);
+
+        const manifest = await this.manifestReader.read(currentDir);
+        if (manifest) manifests.set(currentDir, manifest);
+
+        const parentDir = path.dirname(currentDir);
+        if (parentDir === currentDir) break;
+        currentDir = parentDir;
+      }
+    }
+
+    return manifests;
+  }
+
+  private importsPackage(edge: Edge, graph: PropertyGraph): boolean {
+    if (edge.type !== EdgeType.IMPORTS || graph.getNode(edge.toNodeId)) return false;
+    const external = this.externalPackageResolver.parse(edge.toNodeId);
+    return external !== undefined && !external.builtin;
+  }
+}
@@ -9,6 +9,9 @@ export interface LayoutResult {
 }
 
 export class LayoutEngine {
+  /**
+   * @deprecated Places nodes on a diagonal; use ForceDirectedLayoutEngine for a real force-directed layout
+   */
   forceDirectedLayout(nodeIds: string[], edges: Array<{from: string; to: string}>): LayoutResult {
     const positions = new Map<string, LayoutPosition>();
     nodeIds.forEach((id, i) => {
@@ -21,6 +24,9 @@ export class LayoutEngine {
     };
   }
 
+  /**
+   * @deprecated Returns no positions; use DagreLayoutEngine for a layered layout
+   */
   hierarchicalLayout(root: any, childrenKey: string = 'children'): LayoutResult {
     return {
       positions: new Map(),
@@ -28,6 +34,9 @@ export class LayoutEngine {
     };
   }
 
+  /**
+   * @deprecated Returns positions nothing applies; use CircularLayoutEngine to lay out a GraphView
+   */
   circularLayout(nodeIds: string[], radius: number = 200): LayoutResult {
     const positions = new Map<string, LayoutPosition>();
     const angleStep = (2 * Math.PI) / nodeIds.length;
@@ -0,0 +1,134 @@
+/**
+ * LayoutSelector - Picks a layout style from the shape of a graph view
+ */
+
+import { GraphView } from '../entities/GraphView.js';
+import { GraphAlgorithms } from './GraphAlgorithms.js';
+
+export type LayoutStyle = 'layered' | 'force' | 'grid';
+
+export interface GraphTraits {
+  nodes: number;
+  edges: number;                       // distinct node pairs, self-loops excluded
+  density: number;                     // edges / possible directed edges
+  components: number;                  // weakly connected components
+  isolatedNodes: number;               // nodes without any edge
+  cyclicNodes: number;                 // nodes in a dependency cycle
+}
+
+export interface LayoutSelection {
+  style: LayoutStyle;
+  reasons: string[];
+  traits: GraphTraits;
+}
+
+export interface LayoutSelectionOptions {
+  denseThreshold?: number;             // Density from which a graph counts as dense (default 0.25)
+}
+
+// Below this size every graph looks dense, and a layered layout still reads well
+const DENSE_MIN_NODES = 5;
+
+// At this many components or more, with at most FRAGMENT_SIZE nodes each on
+// average, a view is mostly loose fragments that a grid packs tighter
+const FRAGMENTED_MIN_COMPONENTS = 5;
+const FRAGMENT_SIZE = 2;
+
+export class LayoutSelector {
+  private algorithms = new GraphAlgorithms();
+
+  /**
+   * Choose a layout style
+   * - grid: the view has no edges, so there is no structure to show, or it
+   *   falls apart into many tiny components and isolated nodes
+   * - force: the view has dependency cycles or is dense, which layered
+   *   layouts can only draw with many reversed or crossing edges
+   * - layered: everything else, i.e. sparse acyclic graphs
+   */
+  select(graphView: GraphView, options: LayoutSelectionOptions = {}): LayoutSelection {
+    const denseThreshold = options.denseThreshold ?? 0.25;
+    const traits = this.analyze(graphView);
+
+    if (traits.edges === 0) {
+      const reason = traits.nodes === 0 ? 'view is empty' : `no edges between ${traits.nodes} nodes`;
+      return { style: 'grid', reasons: [reason], traits };
+    }
+    if (traits.components >= FRAGMENTED_MIN_COMPONENTS && traits.nodes / traits.components <= FRAGMENT_SIZE) {
+      return {
+        style: 'grid',
+        reasons: [`${traits.nodes} nodes fall into ${traits.components} components, ${traits.isolatedNodes} of them without edges`],
+        traits
+      };
+    }
+
+    const reasons: string[] = [];
+    if (traits.cyclicNodes > 0) {
+      reasons.push(`${traits.cyclicNodes} of ${traits.nodes} nodes are in dependency cycles`);
+    }
+    if (traits.nodes >= DENSE_MIN_NODES && traits.density >= denseThreshold) {
+      reasons.push(`edge density ${traits.density.toFixed(2)} is at least ${denseThreshold}`);
+    }
+    if (reasons.length > 0) {
+      return { style: 'force', reasons, traits };
+    }
+
+    return {
+      style: 'layered',
+      reasons: [`acyclic with ${traits.edges} edges between ${traits.nodes} nodes`],
+      traits
+    };
+  }
+
+  /**
+   * Measure the traits layout selection is based on; edges to nodes outside the view are ignored
+   */
+  analyze(graphView: GraphView): GraphTraits {
+    const ids = graphView.nodes.map(n => n.id);
+    const adjacency = new Map(ids.map(id => [id, new Set<string>()]));
+    for (const edge of graphView.edges) {
+      if (edge.from !== edge.to && adjacency.has(edge.from) && adjacency.has(edge.to)) {
+        adjacency.get(edge.from)!.add(edge.to);
+      }
+    }
+
+    const edges = Array.from(adjacency.values()).reduce((sum, successors) => sum + successors.size, 0);
+    const cyclicNodes = this.algorithms.stronglyConnectedComponents(adjacency)
+      .filter(component => component.length > 1)
+      .reduce((sum, component) => sum + component.length, 0);
+
+    // Weakly connected components by flood fill over edges in either direction
+    const neighbours = new Map(ids.map(id => [id, new Set<string>()]));
+    for (const [from, successors] of adjacency) {
+      for (const to of successors) {
+        neighbours.get(from)!.add(to);
+        neighbours.get(to)!.add(from);
+      }
+    }
+
+    const visited = new Set<string>();
+    let components = 0;
+    for (const id of ids) {
+      if (visited.has(id)) continue;
+      components++;
+      const queue = [id];
+      visited.add(id);
+      while (queue.length > 0) {
+        for (const next of neighbours.get(queue.pop()!)!) {
+          if (!visited.has(next)) {
+            visited.add(next);
+            queue.push(next);
+          }
+        }
+      }
+    }
+
+    return {
+      nodes: ids.length,
+      edges,
+      density: ids.length > 1 ? edges / (ids.length * (ids.length - 1)) : 0,
+      components,
+      isolatedNodes: Array.from(neighbours.values()).filter(n => n.size === 0).length,
+      cyclicNodes
+    };
+  }
+}
@@ -1,13 +1,32 @@
-import { PropertyGraph } from '@garrick0/c3-parsing';
+import { PropertyGraph, NodeType, type Node } from '@garrick0/c3-parsing';
+import { Module } from '../entities/Module.js';
+import { type ModuleProjection } from '../entities/ModuleProjection.js';
+import { type GraphView } from '../entities/GraphView.js';
 
 export interface GraphMetrics {
   nodeCount: number;
   edgeCount: number;
   density: number;
   averageDegree: number;
-  clustering?: number;
+  clustering?: number;        // average local clustering coefficient
 }
 
+export interface CentralityMetrics {
+  betweenness: number;        // share of shortest paths through the node, normalized to [0, 1]
+  pageRank: number;           // sums to 1 over the graph; dependencies rank above their dependents
+  clustering: number;         // local clustering coefficient, ignoring edge direction
+  coreNumber: number;         // largest k such that the node is in the k-core, ignoring edge direction
+}
+
+interface DirectedEdge {
+  from: string;
+  to: string;
+}
+
+const PAGE_RANK_DAMPING = 0.85;
+const PAGE_RANK_TOLERANCE = 1e-8;
+const PAGE_RANK_MAX_ITERATIONS = 100;
+
 export class MetricsCalculator {
   calculateGraphMetrics(graph: PropertyGraph): GraphMetrics {
     const nodeCount = graph.getNodeCount();
@@ -19,14 +38,77 @@ export class MetricsCalculator {
 
     const averageDegree = nodeCount > 0 ? (2 * edgeCount) / nodeCount : 0;
 
+    const nodeIds = graph.getNodes().map(node => node.id);
+    const known = new Set(nodeIds);
+    const edges = graph.getEdges().filter(edge => known.has(edge.fromNodeId) && known.has(edge.toNodeId));
+    const clustering = this.calculateClustering(nodeIds, edges.map(edge => ({ from: edge.fromNodeId, to: edge.toNodeId })));
+
     return {
       nodeCount,
       edgeCount,
       density,
-      averageDegree
+      averageDegree,
+      clustering: this.average(Array.from(clustering.values()))
     };
   }
 
+  /**
+   * Compute centrality metrics for every module of a projection, keyed by module ID
+   */
+  calculateModuleCentrality(projection: ModuleProjection): Map<string, CentralityMetrics> {
+    const modules = projection.getModules();
+    const edges = modules.flatMap(m => m.getDependencies()
+      .filter(depId => projection.getModule(depId))
+      .map(depId => ({ from: m.id, to: depId })));
+
+    return this.calculateCentrality(modules.map(m => m.id), edges);
+  }
+
+  /**
+   * Compute centrality metrics for every GraphView node, store them in node metadata,
+   * and return the view's graph metrics
+   */
+  calculateGraphViewMetrics(view: GraphView): GraphMetrics {
+    const nodeIds = view.nodes.map(node => node.id);
+    const centrality = this.calculateCentrality(nodeIds, view.edges);
+
+    for (const node of view.nodes) {
+      Object.assign(node.metadata, centrality.get(node.id));
+    }
+
+    const nodeCount = nodeIds.length;
+    const edgeCount = view.getEdgeCount();
+
+    return {
+      nodeCount,
+      edgeCount,
+      density: nodeCount > 1 ? edgeCount / (nodeCount * (nodeCount - 1)) : 0,
+      averageDegree: nodeCount > 0 ? (2 * edgeCount) / nodeCount : 0,
+      clustering: this.average(Array.from(centrality.values()).map(c => c.clustering))
+    };
+  }
+
+  /**
+   * Compute betweenness, PageRank, clustering coefficient and core number per node
+   * Edges whose endpoints are not in nodeIds are ignored.
+   */
+  calculateCentrality(nodeIds: string[], edges: DirectedEdge[]): Map<string, CentralityMetrics> {
+    const known = new Set(nodeIds);
+    const validEdges = edges.filter(e => known.has(e.from) && known.has(e.to) && e.from !== e.to);
+
+    const betweenness = this.calculateBetweenness(nodeIds, validEdges);
+    const pageRank = this.calculatePageRank(nodeIds, validEdges);
+    const clustering = this.calculateClustering(nodeIds, validEdges);
+    const coreNumbers = this.calculateCoreNumbers(nodeIds, validEdges);
+
+    return new Map(nodeIds.map(id => [id, {
+      betweenness: betweenness.get(id)!,
+      pageRank: pageRank.get(id)!,
+      clustering: clustering.get(id)!,
+      coreNumber: coreNumbers.get(id)!
+    }]));
+  }
+
   calculateCoupling(dependencies: string[]): number {
     return dependencies.length;
   }
@@ -34,4 +116,257 @@ export class MetricsCalculator {
   calculateCohesion(internalConnections: number, totalConnections: number): number {
     return totalConnections > 0 ? internalConnections / totalConnections : 0;
   }
+
+  /**
+   * Lines spanned by the files, counting both the first and last line of each
+   */
+  calculateLineCount(files: Node[]): number {
+    return files.reduce((sum, file) => {
+      const { startLine, endLine } = file.metadata;
+      return sum + (endLine ? endLine - (startLine || 1) + 1 : 0);
+    }, 0);
+  }
+
+  /**
+   * Set Robert C. Martin's package metrics on each internal module
+   * Abstractness comes from the class and interface nodes in each module's files.
+   */
+  calculatePackageMetrics(modules: Module[], graph: PropertyGraph): void {
+    this.countTypes(modules, graph);
+    this.calculateMainSequenceMetrics(modules);
+  }
+
+  /**
+   * Count classes/interfaces and their abstract share per module
+   */
+  countTypes(modules: Module[], graph: PropertyGraph): void {
+    const fileToModule = new Map<string, Module>();
+    for (const module of modules) {
+      for (const fileId of module.files) {
+        const filePath = graph.getNode(fileId)?.metadata?.filePath;
+        if (filePath) fileToModule.set(filePath, module);
+      }
+      module.metrics.typeCount = 0;
+      module.metrics.abstractTypeCount = 0;
+    }
+
+    for (const node of graph.getNodes()) {
+      const isInterface = this.isInterface(node);
+      if (node.type !== NodeType.CLASS && !isInterface) continue;
+
+      const module = fileToModule.get(node.metadata?.filePath);
+      if (!module) continue;
+
+      module.metrics.typeCount!++;
+      if (isInterface || this.isAbstractClass(node)) {
+        module.metrics.abstractTypeCount!++;
+      }
+    }
+  }
+
+  /**
+   * Derive Ca, Ce, I, A and D from module dependencies and type counts
+   * External modules are left out, so opting into them does not change the numbers.
+   */
+  calculateMainSequenceMetrics(modules: Module[]): void {
+    const internal = new Set(modules.filter(m => !m.isExternal()).map(m => m.id));
+
+    for (const module of modules) {
+      if (!internal.has(module.id)) continue;
+
+      const ca = module.getDependents().filter(id => internal.has(id)).length;
+      const ce = module.getDependencies().filter(id => internal.has(id)).length;
+      const instability = ca + ce > 0 ? ce / (ca + ce) : 0;
+      const typeCount = module.metrics.typeCount ?? 0;
+      const abstractness = typeCount > 0 ? (module.metrics.abstractTypeCount ?? 0) / typeCount : 0;
+
+      module.metrics.afferentCoupling = ca;
+      module.metrics.efferentCoupling = ce;
+      module.metrics.instability = instability;
+      module.metrics.abstractness = abstractness;
+      module.metrics.distance = Math.abs(abstractness + instability - 1);
+    }
+  }
+
+  /**
+   * Get modules far from the main sequence (distance >= threshold)
+   * - pain: concrete and stable (A + I < 1), hard to change yet depended upon
+   * - uselessness: abstract and unstable (A + I > 1), abstractions nobody uses
+   * Modules without package metrics or without internal coupling are skipped.
+   */
+  getMainSequenceZones(modules: Module[], threshold: number = 0.7): { pain: Module[]; uselessness: Module[] } {
+    const candidates = modules.filter(m =>
+      m.metrics.distance !== undefined
+      && m.metrics.distance >= threshold
+      && (m.metrics.afferentCoupling ?? 0) + (m.metrics.efferentCoupling ?? 0) > 0);
+
+    return {
+      pain: candidates.filter(m => m.metrics.abstractness! + m.metrics.instability! < 1),
+      uselessness: candidates.filter(m => m.metrics.abstractness! + m.metrics.instability! > 1)
+    };
+  }
+
+  /**
+   * Find a projection's main-sequence zones and record them on it, for getSummary()
+   */
+  recordMainSequenceZones(projection: ModuleProjection, threshold: number = 0.7): { pain: Module[]; uselessness: Module[] } {
+    const zones = this.getMainSequenceZones(projection.getModules(), threshold);
+    projection.setMainSequenceZones({
+      pain: zones.pain.map(m => m.id),
+      uselessness: zones.uselessness.map(m => m.id)
+    });
+    return zones;
+  }
+
+  private isInterface(node: Node): boolean {
+    return node.type === NodeType.INTERFACE || node.labels?.has('Interface') === true;
+  }
+
+  private isAbstractClass(node: Node): boolean {
+    return node.metadata?.isAbstract === true
+      || node.metadata?.abstract === true
+      || node.labels?.has('Abstract') === true;
+  }
+
+  /**
+   * Brandes' algorithm on the directed, unweighted graph
+   */
+  private calculateBetweenness(nodeIds: string[], edges: DirectedEdge[]): Map<string, number> {
+    const successors = this.buildAdjacency(nodeIds, edges, false);
+    const betweenness = new Map<string, number>(nodeIds.map(id => [id, 0]));
+
+    for (const source of nodeIds) {
+      const order: string[] = [];
+      const predecessors = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+      const paths = new Map<string, number>(nodeIds.map(id => [id, 0]));
+      const distance = new Map<string, number>([[source, 0]]);
+      paths.set(source, 1);
+
+      const queue = [source];
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        order.push(current);
+
+        for (const next of successors.get(current)!) {
+          if (!distance.has(next)) {
+            distance.set(next, distance.get(current)! + 1);
+            queue.push(next);
+          }
+          if (distance.get(next) === distance.get(current)! + 1) {
+            paths.set(next, paths.get(next)! + paths.get(current)!);
+            predecessors.get(next)!.push(current);
+          }
+        }
+      }
+
+      const dependency = new Map<string, number>(nodeIds.map(id => [id, 0]));
+      for (let i = order.length - 1; i >= 0; i--) {
+        const current = order[i];
+        for (const previous of predecessors.get(current)!) {
+          const share = (paths.get(previous)! / paths.get(current)!) * (1 + dependency.get(current)!);
+          dependency.set(previous, dependency.get(previous)! + share);
+        }
+        if (current !== source) {
+          betweenness.set(current, betweenness.get(current)! + dependency.get(current)!);
+        }
+      }
+    }
+
+    const n = nodeIds.length;
+    const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+    return new Map(Array.from(betweenness, ([id, value]) => [id, value * scale]));
+  }
+
+  /**
+   * Power-iteration PageRank; rank from nodes without outgoing edges is spread evenly
+   */
+  private calculatePageRank(nodeIds: string[], edges: DirectedEdge[]): Map<string, number> {
+    const n = nodeIds.length;
+    const successors = this.buildAdjacency(nodeIds, edges, false);
+    let rank = new Map<string, number>(nodeIds.map(id => [id, 1 / n]));
+
+    for (let iteration = 0; iteration < PAGE_RANK_MAX_ITERATIONS; iteration++) {
+      const danglingRank = nodeIds
+        .filter(id => successors.get(id)!.size === 0)
+        .reduce((sum, id) => sum + rank.get(id)!, 0);
+      const base = (1 - PAGE_RANK_DAMPING) / n + PAGE_RANK_DAMPING * danglingRank / n;
+      const next = new Map<string, number>(nodeIds.map(id => [id, base]));
+
+      for (const id of nodeIds) {
+        const targets = successors.get(id)!;
+        for (const target of targets) {
+          next.set(target, next.get(target)! + PAGE_RANK_DAMPING * rank.get(id)! / targets.size);
+        }
+      }
+
+      const change = nodeIds.reduce((sum, id) => sum + Math.abs(next.get(id)! - rank.get(id)!), 0);
+      rank = next;
+      if (change < PAGE_RANK_TOLERANCE) break;
+    }
+
+    return rank;
+  }
+
+  /**
+   * Local clustering coefficient on the undirected graph
+   */
+  private calculateClustering(nodeIds: string[], edges: DirectedEdge[]): Map<string, number> {
+    const neighbors = this.buildAdjacency(nodeIds, edges, true);
+
+    return new Map(nodeIds.map(id => {
+      const adjacent = Array.from(neighbors.get(id)!);
+      const k = adjacent.length;
+      if (k < 2) return [id, 0];
+
+      let links = 0;
+      for (let i = 0; i < k; i++) {
+        for (let j = i + 1; j < k; j++) {
+          if (neighbors.get(adjacent[i])!.has(adjacent[j])) links++;
+        }
+      }
+      return [id, (2 * links) / (k * (k - 1))];
+    }));
+  }
+
+  /**
+   * k-core decomposition on the undirected graph by repeatedly removing the lowest-degree node
+   */
+  private calculateCoreNumbers(nodeIds: string[], edges: DirectedEdge[]): Map<string, number> {
+    const neighbors = this.buildAdjacency(nodeIds, edges, true);
+    const degree = new Map<string, number>(nodeIds.map(id => [id, neighbors.get(id)!.size]));
+    const remaining = new Set(nodeIds);
+    const coreNumbers = new Map<string, number>();
+    let core = 0;
+
+    while (remaining.size > 0) {
+      let lowest: string | undefined;
+      for (const id of remaining) {
+        if (lowest === undefined || degree.get(id)! < degree.get(lowest)!) lowest = id;
+      }
+
+      core = Math.max(core, degree.get(lowest!)!);
+      coreNumbers.set(lowest!, core);
+      remaining.delete(lowest!);
+
+      for (const neighbor of neighbors.get(lowest!)!) {
+        if (remaining.has(neighbor)) degree.set(neighbor, degree.get(neighbor)! - 1);
+      }
+    }
+
+    return coreNumbers;
+  }
+
+  private buildAdjacency(nodeIds: string[], edges: DirectedEdge[], undirected: boolean): Map<string, Set<string>> {
+    const adjacency = new Map<string, Set<string>>(nodeIds.map(id => [id, new Set()]));
+    for (const edge of edges) {
+      if (edge.from === edge.to) continue;
+      adjacency.get(edge.from)!.add(edge.to);
+      if (undirected) adjacency.get(edge.to)!.add(edge.from);
+    }
+    return adjacency;
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
 }
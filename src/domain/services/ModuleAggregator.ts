@@ -6,17 +6,61 @@ import { PropertyGraph, NodeType, type Node } from '@garrick0/c3-parsing';
 import { Logger } from '@garrick0/c3-shared';
 import { Module, type ModuleMetrics } from '../entities/Module.js';
 import { AggregationLevel } from '../value-objects/AggregationLevel.js';
+import { GlobPattern } from '../value-objects/GlobPattern.js';
+import { ViewConfiguration } from '../value-objects/ViewConfiguration.js';
+import { WorkspaceDiscovery, type WorkspacePackage } from './WorkspaceDiscovery.js';
+import { MetricsCalculator } from './MetricsCalculator.js';
 import * as path from 'path';
 import { promises as fs } from 'fs';
 
+/**
+ * Rule for AggregationLevel.CUSTOM, matched against the file path relative to rootPath
+ * e.g. { pattern: '^src/features/([^/]+)/(ui|api)/', type: 'regex', module: 'features/$1' }
+ */
+export interface GroupingRule {
+  pattern: string;
+  type?: 'glob' | 'regex';     // default: glob
+  module: string;              // module name; $1, $2, ... are replaced with captures
+}
+
 export interface AggregationConfig {
   level: AggregationLevel;
   includeTests?: boolean;
   excludePatterns?: string[];  // e.g., ['node_modules', 'dist']
+  groupingRules?: GroupingRule[];  // CUSTOM only, first match wins
+  fallbackModule?: string;     // CUSTOM only, module for unmatched files (default: file's directory)
+  depth?: number;              // TOP_LEVEL only, number of directory components (default: 2)
+  nested?: boolean;            // DIRECTORY/TOP_LEVEL only, add parent modules for enclosing directories
+  workspacePackages?: WorkspacePackage[];  // PACKAGE only, discovered from rootPath when omitted
+}
+
+interface CompiledGroupingRule {
+  match: (relativePath: string) => string[] | undefined;
+  module: string;
 }
 
 export class ModuleAggregator {
-  constructor(private logger: Logger) {}
+  private workspaceDiscovery: WorkspaceDiscovery;
+  private metricsCalculator = new MetricsCalculator();
+
+  constructor(private logger: Logger) {
+    this.workspaceDiscovery = new WorkspaceDiscovery(logger);
+  }
+
+  /**
+   * Build an AggregationConfig from a ViewConfiguration's level and options
+   */
+  static createConfig(config: ViewConfiguration): AggregationConfig {
+    return {
+      level: config.aggregationLevel,
+      includeTests: config.getOption<boolean>('includeTests', true),
+      excludePatterns: config.getOption<string[]>('excludePatterns', ['node_modules', 'dist', 'coverage', 'build']),
+      groupingRules: config.getOption<GroupingRule[]>('groupingRules'),
+      fallbackModule: config.getOption<string>('fallbackModule'),
+      depth: config.getOption<number>('depth'),
+      nested: config.getOption<boolean>('nested', false)
+    };
+  }
 
   /**
    * Aggregate PropertyGraph nodes into Module entities
@@ -34,17 +78,29 @@ export class ModuleAggregator {
     this.logger.info(`Found ${codeFiles.length} code files to aggregate`);
 
     // Step 2: Group files by aggregation level
-    const filesByModule = await this.groupFilesByLevel(codeFiles, rootPath, config.level);
+    const workspacePackages = config.level === AggregationLevel.PACKAGE
+      ? config.workspacePackages ?? await this.workspaceDiscovery.discover(rootPath)
+      : [];
+    const filesByModule = await this.groupFilesByLevel(codeFiles, rootPath, config, workspacePackages);
 
     this.logger.info(`Grouped into ${filesByModule.size} modules`);
 
     // Step 3: Create Module entities
+    const packageNames = new Map(workspacePackages.map(p => [p.path, p.name]));
     const modules: Module[] = [];
     for (const [modulePath, files] of filesByModule.entries()) {
-      const module = this.createModule(modulePath, files, graph);
+      const name = packageNames.get(modulePath) ?? (config.level === AggregationLevel.CUSTOM
+        ? path.relative(rootPath, modulePath) || path.basename(modulePath)
+        : path.basename(modulePath));
+      const module = this.createModule(modulePath, name, files, graph);
       modules.push(module);
     }
 
+    // Step 4: Link modules to parent modules for their enclosing directories
+    if (config.nested && (config.level === AggregationLevel.DIRECTORY || config.level === AggregationLevel.TOP_LEVEL)) {
+      modules.push(...this.buildHierarchy(modules, rootPath, graph));
+    }
+
     this.logger.info(`Created ${modules.length} modules from ${codeFiles.length} files`);
     return modules;
   }
@@ -55,13 +111,18 @@ export class ModuleAggregator {
   private async groupFilesByLevel(
     files: Node[],
     rootPath: string,
-    level: AggregationLevel
+    config: AggregationConfig,
+    workspacePackages: WorkspacePackage[]
   ): Promise<Map<string, Node[]>> {
     const grouped = new Map<string, Node[]>();
+    const rules = config.level === AggregationLevel.CUSTOM ? this.compileRules(config) : [];
 
     for (const file of files) {
-      const modulePath = await this.getModulePathForFile(file, rootPath, level);
-      
+      const modulePath = config.level === AggregationLevel.CUSTOM
+        ? this.getCustomModulePath(file, rootPath, rules, config.fallbackModule)
+        : this.findWorkspacePackage(file.metadata.filePath, workspacePackages)?.path
+          ?? await this.getModulePathForFile(file, rootPath, config.level, config.depth);
+
       if (!grouped.has(modulePath)) {
         grouped.set(modulePath, []);
       }
@@ -74,7 +135,12 @@ export class ModuleAggregator {
   /**
    * Determine module path for a file based on aggregation level
    */
-  private async getModulePathForFile(file: Node, rootPath: string, level: AggregationLevel): Promise<string> {
+  private async getModulePathForFile(
+    file: Node,
+    rootPath: string,
+    level: AggregationLevel,
+    depth: number = 2
+  ): Promise<string> {
     const filePath = file.metadata.filePath;
 
     switch (level) {
@@ -82,16 +148,10 @@ export class ModuleAggregator {
         return path.dirname(filePath);
       
       case AggregationLevel.TOP_LEVEL:
-        // Get top two directory levels (e.g., "src/domain/entities/File.ts" → "src/domain")
-        const relativePath = path.relative(rootPath, filePath);
+        // Get top `depth` directory levels (e.g., depth 2: "src/domain/entities/File.ts" → "src/domain")
+        const relativePath = path.relative(rootPath, path.dirname(filePath));
         const parts = relativePath.split(path.sep).filter(Boolean);
-        // Always take first TWO directory components only
-        if (parts.length >= 3) { // At least: dir1/dir2/file
-          return path.join(rootPath, parts[0], parts[1]);
-        } else if (parts.length >= 2) { // dir1/file
-          return path.join(rootPath, parts[0]);
-        }
-        return rootPath;
+        return path.join(rootPath, ...parts.slice(0, depth));
       
       case AggregationLevel.PACKAGE:
         // Find nearest package.json or tsconfig.json
@@ -102,6 +162,104 @@ export class ModuleAggregator {
     }
   }
 
+  /**
+   * Determine module path for a file from the first matching CUSTOM grouping rule
+   */
+  private getCustomModulePath(
+    file: Node,
+    rootPath: string,
+    rules: CompiledGroupingRule[],
+    fallbackModule?: string
+  ): string {
+    const filePath = file.metadata.filePath;
+    const relativePath = GlobPattern.normalize(path.relative(rootPath, filePath));
+
+    for (const rule of rules) {
+      const captures = rule.match(relativePath);
+      if (captures) {
+        const name = rule.module.replace(/\$(\d+)/g, (_, index) => captures[Number(index) - 1] ?? '');
+        return path.join(rootPath, name);
+      }
+    }
+
+    return fallbackModule ? path.join(rootPath, fallbackModule) : path.dirname(filePath);
+  }
+
+  /**
+   * Compile CUSTOM grouping rules into matchers returning capture groups
+   */
+  private compileRules(config: AggregationConfig): CompiledGroupingRule[] {
+    if (!config.groupingRules || config.groupingRules.length === 0) {
+      throw new Error('CUSTOM aggregation requires at least one grouping rule');
+    }
+
+    return config.groupingRules.map(rule => {
+      if (rule.type === 'regex') {
+        const regex = new RegExp(rule.pattern);
+        return {
+          match: (relativePath: string) => {
+            const match = regex.exec(relativePath);
+            return match ? match.slice(1).map(capture => capture ?? '') : undefined;
+          },
+          module: rule.module
+        };
+      }
+
+      const glob = GlobPattern.create(rule.pattern);
+      return { match: (relativePath: string) => glob.exec(relativePath), module: rule.module };
+    });
+  }
+
+  /**
+   * Create parent modules for the enclosing directories of every module, up to
+   * the first directory below rootPath. Parents own no files of their own unless
+   * files live directly in that directory; see ModuleProjection.rollUp.
+   */
+  private buildHierarchy(modules: Module[], rootPath: string, graph: PropertyGraph): Module[] {
+    const byPath = new Map(modules.map(m => [m.path, m]));
+    const created: Module[] = [];
+
+    for (const module of modules) {
+      let current = module;
+      let parentPath = path.dirname(current.path);
+
+      while (current.parentId === undefined && this.isBelowRoot(parentPath, rootPath)) {
+        let parent = byPath.get(parentPath);
+        if (!parent) {
+          parent = this.createModule(parentPath, path.basename(parentPath), [], graph);
+          byPath.set(parentPath, parent);
+          created.push(parent);
+        }
+
+        current.setParent(parent.id);
+        parent.addChild(current.id);
+
+        current = parent;
+        parentPath = path.dirname(parentPath);
+      }
+    }
+
+    this.logger.info(`Created ${created.length} parent modules for nested projection`);
+    return created;
+  }
+
+  /**
+   * Check if a directory is strictly inside rootPath
+   */
+  private isBelowRoot(dirPath: string, rootPath: string): boolean {
+    const relative = path.relative(rootPath, dirPath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  /**
+   * Find the innermost workspace package containing a file
+   */
+  private findWorkspacePackage(filePath: string, packages: WorkspacePackage[]): WorkspacePackage | undefined {
+    return packages
+      .filter(p => filePath.startsWith(p.path + path.sep))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+  }
+
   /**
    * Find nearest package.json or tsconfig.json
    */
@@ -142,13 +300,13 @@ export class ModuleAggregator {
   /**
    * Create a Module entity from grouped files
    */
-  private createModule(modulePath: string, files: Node[], graph: PropertyGraph): Module {
+  private createModule(modulePath: string, name: string, files: Node[], graph: PropertyGraph): Module {
     const fileIds = files.map(f => f.id);
     const metrics = this.calculateMetrics(files);
 
     return new Module(
       this.generateModuleId(modulePath),
-      path.basename(modulePath),
+      name,
       modulePath,
       fileIds,
       new Set<string>(),  // Dependencies calculated later
@@ -161,15 +319,9 @@ export class ModuleAggregator {
    * Calculate metrics for a module
    */
   private calculateMetrics(files: Node[]): ModuleMetrics {
-    const totalLines = files.reduce((sum, f) => {
-      const endLine = f.metadata.endLine || 0;
-      const startLine = f.metadata.startLine || 0;
-      return sum + (endLine - startLine);
-    }, 0);
-
     return {
       fileCount: files.length,
-      totalLines,
+      totalLines: this.metricsCalculator.calculateLineCount(files),
       dependencyCount: 0,  // Calculated by ModuleDependencyCalculator
       dependentCount: 0    // Calculated by ModuleDependencyCalculator
     };
@@ -5,42 +5,51 @@
 import { PropertyGraph, EdgeType } from '@garrick0/c3-parsing';
 import { Logger } from '@garrick0/c3-shared';
 import { Module } from '../entities/Module.js';
-import * as path from 'path';
+import { ImportResolver, type ImportResolverOptions } from './ImportResolver.js';
+import { ImportMetadataReader } from './ImportMetadataReader.js';
+import { ExternalPackageResolver } from './ExternalPackageResolver.js';
+import { ImportKind } from '../value-objects/ImportKind.js';
+import { type ImportDiagnostics, type UnresolvedImport, type UnresolvedImportCategory } from '../value-objects/ImportDiagnostics.js';
+
+export interface DependencyCalculationOptions extends ImportResolverOptions {
+  excludeImportKinds?: ImportKind[];   // Ignore these imports entirely, e.g. [ImportKind.TYPE_ONLY]
+  includeExternals?: boolean;          // Create a synthetic module per imported npm package
+  includeBuiltins?: boolean;           // ...and per Node built-in (requires includeExternals)
+}
+
+export interface DependencyCalculationResult {
+  externalModules: Module[];           // Synthetic modules, not yet part of the input list
+  diagnostics: ImportDiagnostics;      // Imports that could not be resolved to a file
+}
+
+/**
+ * Import statements from one file to another
+ */
+export interface FileDependency {
+  from: string;                        // file node ID
+  to: string;                          // file node ID
+  importCount: number;
+}
 
 export class ModuleDependencyCalculator {
+  private metadataReader = new ImportMetadataReader();
+  private externalPackageResolver = new ExternalPackageResolver();
+
   constructor(private logger: Logger) {}
 
   /**
    * Calculate module-level dependencies from PropertyGraph edges
    * Works directly with PropertyGraph - no intermediate layer!
+   * Each dependency records the import statements, file pairs, symbols and import kinds behind it.
    */
-  calculate(modules: Module[], graph: PropertyGraph): void {
+  calculate(modules: Module[], graph: PropertyGraph, options: DependencyCalculationOptions = {}): DependencyCalculationResult {
     this.logger.info(`Calculating dependencies for ${modules.length} modules`);
 
-    // Build a map from file ID to module
-    const fileToModule = new Map<string, Module>();
-    for (const module of modules) {
-      for (const fileId of module.files) {
-        fileToModule.set(fileId, module);
-      }
-    }
+    const fileToModule = this.mapFilesToModules(modules);
 
-    // Build maps for path resolution
-    // IMPORTANT: Only index FILE nodes, not other node types
-    const pathToNodeId = new Map<string, string>();
-    const nodeIdToPath = new Map<string, string>();
-    
-    for (const node of graph.getNodes()) {
-      if (node.metadata?.filePath) {
-        const filePath = node.metadata.filePath;
-        // Only add FILE nodes to the path map (not classes, functions, etc.)
-        if (node.type === 'file' || node.labels?.has('File')) {
-          pathToNodeId.set(filePath, node.id);
-          pathToNodeId.set(path.normalize(filePath), node.id); // Also store normalized
-          nodeIdToPath.set(node.id, filePath);
-        }
-      }
-    }
+    const resolver = new ImportResolver(graph, options);
+    const externalModules = new Map<string, Module>();
+    const unresolved: UnresolvedImport[] = [];
 
     // Get all import edges from PropertyGraph
     const importEdges = graph.getEdges()
@@ -48,8 +57,14 @@ export class ModuleDependencyCalculator {
 
     this.logger.info(`Processing ${importEdges.length} import edges`);
 
+    const excludedKinds = new Set(options.excludeImportKinds ?? []);
+
+    let consideredCount = 0;
     let resolvedCount = 0;
     let unresolvedCount = 0;
+    let excludedCount = 0;
+    let externalCount = 0;
+    let unassignedCount = 0;
     let sameModuleCount = 0;
     let crossModuleCount = 0;
 
@@ -62,66 +77,52 @@ export class ModuleDependencyCalculator {
         continue; // Source file not in any module
       }
 
+      const kind = this.metadataReader.getKind(edge);
+      if (excludedKinds.has(kind)) {
+        excludedCount++;
+        continue;
+      }
+      consideredCount++;
+
       // The toNodeId might be an import path string, not a node ID
-      // Try to resolve it to a file node ID
       let targetNodeId = edge.toNodeId;
-      
-      // If toNodeId is not in fileToModule, it might be an import path
+
       if (!fileToModule.has(targetNodeId)) {
-        // Try to resolve import path to node ID
-        let resolvedNodeId = pathToNodeId.get(targetNodeId);
-        
-        // If not found, try to resolve it relative to the source file
-        if (!resolvedNodeId) {
-          const sourceFilePath = nodeIdToPath.get(edge.fromNodeId);
-          if (sourceFilePath && (targetNodeId.startsWith('./') || targetNodeId.startsWith('../'))) {
-            // Resolve relative import
-            const sourceDir = path.dirname(sourceFilePath);
-            const resolved = path.resolve(sourceDir, targetNodeId);
-            
-            // Try with original extension and common TypeScript extensions
-            const attempts = [
-              resolved,
-              path.normalize(resolved),
-              resolved.replace(/\.js$/, '.ts'),
-              resolved.replace(/\.jsx$/, '.tsx'),
-              resolved + '.ts',
-              resolved + '.tsx',
-              resolved + '.js',
-              resolved + '/index.ts',
-              resolved + '/index.js'
-            ];
-            
-            for (const attempt of attempts) {
-              resolvedNodeId = pathToNodeId.get(attempt);
-              if (resolvedNodeId) break;
-            }
-          }
-        }
-        
+        const resolvedNodeId = resolver.resolve(edge);
+
         if (resolvedNodeId) {
           targetNodeId = resolvedNodeId;
           resolvedCount++;
         } else {
           // Could be external dependency (c3-shared, etc.) or unresolved path
-          unresolvedCount++;
+          const externalModule = options.includeExternals
+            ? this.getExternalModule(edge.toNodeId, resolver, resolver.getFilePath(edge.fromNodeId), externalModules, options)
+            : undefined;
+
+          if (!externalModule) {
+            unresolvedCount++;
+            const diagnostic = resolver.diagnose(edge);
+            if (diagnostic) unresolved.push(diagnostic);
+            continue;
+          }
+
+          externalCount++;
+          sourceModule.recordImport(externalModule.id, {
+            from: resolver.getFilePath(edge.fromNodeId) ?? edge.fromNodeId,
+            to: edge.toNodeId,
+            symbols: this.metadataReader.getSymbols(edge),
+            kinds: [kind]
+          });
+          externalModule.addDependent(sourceModule.id);
           continue;
         }
       }
 
       const targetModule = fileToModule.get(targetNodeId);
 
-      // Skip if target file is not in a module (e.g., external dependency)
+      // Skip if target file is not in a module (e.g., excluded test files)
       if (!targetModule) {
-        if (crossModuleCount + sameModuleCount === 0) { // Only log first few failures
-          this.logger.info(`DEBUG: Target file not in fileToModule map`, { 
-            targetNodeId, 
-            sourceNodeId: edge.fromNodeId,
-            sourceModule: sourceModule.name,
-            fileToModuleSize: fileToModule.size,
-            sampleFileIds: Array.from(fileToModule.keys()).slice(0, 3) 
-          });
-        }
+        unassignedCount++;
         continue;
       }
 
@@ -133,7 +134,12 @@ export class ModuleDependencyCalculator {
 
       // Add dependency relationship
       crossModuleCount++;
-      sourceModule.addDependency(targetModule.id);
+      sourceModule.recordImport(targetModule.id, {
+        from: resolver.getFilePath(edge.fromNodeId) ?? edge.fromNodeId,
+        to: resolver.getFilePath(targetNodeId) ?? targetNodeId,
+        symbols: this.metadataReader.getSymbols(edge),
+        kinds: [kind]
+      });
       targetModule.addDependent(sourceModule.id);
     }
 
@@ -141,18 +147,131 @@ export class ModuleDependencyCalculator {
       total: importEdges.length,
       resolved: resolvedCount,
       unresolved: unresolvedCount,
+      excluded: excludedCount,
+      external: externalCount,
+      outsideModules: unassignedCount,
       sameModule: sameModuleCount,
       crossModule: crossModuleCount
     });
 
     // Update metrics
-    for (const module of modules) {
+    for (const module of [...modules, ...externalModules.values()]) {
       module.metrics.dependencyCount = module.getDependencyCount();
       module.metrics.dependentCount = module.getDependentCount();
     }
 
     const totalDeps = modules.reduce((sum, m) => sum + m.getDependencyCount(), 0);
-    this.logger.info(`Calculated ${totalDeps} module dependencies`);
+    this.logger.info(`Calculated ${totalDeps} module dependencies`, { externalModules: externalModules.size });
+
+    return {
+      externalModules: Array.from(externalModules.values()),
+      diagnostics: {
+        totalImports: consideredCount,
+        resolvedImports: consideredCount - unresolvedCount - externalCount,
+        externalImports: externalCount,
+        unresolved,
+        byCategory: this.countByCategory(unresolved)
+      }
+    };
+  }
+
+  /**
+   * Build a map from file ID to the module containing it
+   */
+  mapFilesToModules(modules: Module[]): Map<string, Module> {
+    const fileToModule = new Map<string, Module>();
+    for (const module of modules) {
+      for (const fileId of module.files) {
+        fileToModule.set(fileId, module);
+      }
+    }
+    return fileToModule;
+  }
+
+  /**
+   * Calculate file-level dependencies between the given files
+   * Import specifiers are resolved as in calculate(); imports of files outside
+   * the set, and imports within a single file, are dropped.
+   */
+  calculateFileDependencies(
+    fileIds: Iterable<string>,
+    graph: PropertyGraph,
+    options: DependencyCalculationOptions = {}
+  ): FileDependency[] {
+    const files = new Set(fileIds);
+    const resolver = new ImportResolver(graph, options);
+    const excludedKinds = new Set(options.excludeImportKinds ?? []);
+    const dependencies = new Map<string, FileDependency>();
+
+    for (const edge of graph.getEdges()) {
+      if (edge.type !== EdgeType.IMPORTS || !files.has(edge.fromNodeId)) continue;
+      if (excludedKinds.has(this.metadataReader.getKind(edge))) continue;
+
+      const targetNodeId = files.has(edge.toNodeId) ? edge.toNodeId : resolver.resolve(edge);
+      if (!targetNodeId || !files.has(targetNodeId) || targetNodeId === edge.fromNodeId) continue;
+
+      const key = `${edge.fromNodeId}->${targetNodeId}`;
+      const dependency = dependencies.get(key) ?? { from: edge.fromNodeId, to: targetNodeId, importCount: 0 };
+      dependency.importCount++;
+      dependencies.set(key, dependency);
+    }
+
+    return Array.from(dependencies.values());
+  }
+
+  private countByCategory(unresolved: UnresolvedImport[]): Record<UnresolvedImportCategory, number> {
+    const counts: Record<UnresolvedImportCategory, number> = {
+      'alias': 0,
+      'external': 0,
+      'missing-file': 0,
+      'unsupported-extension': 0
+    };
+    unresolved.forEach(u => counts[u.category]++);
+    return counts;
+  }
+
+  /**
+   * Get or create the synthetic module for the package behind a bare specifier
+   * @returns undefined for specifiers that are not packages, or built-ins when they are not included
+   */
+  private getExternalModule(
+    specifier: string,
+    resolver: ImportResolver,
+    importingFile: string | undefined,
+    externalModules: Map<string, Module>,
+    options: DependencyCalculationOptions
+  ): Module | undefined {
+    const externalPackage = resolver.getExternalPackage(specifier);
+    if (!externalPackage || (externalPackage.builtin && !options.includeBuiltins)) {
+      return undefined;
+    }
+
+    const id = `${externalPackage.builtin ? 'builtin' : 'external'}:${externalPackage.packageName}`;
+    if (!externalModules.has(id)) {
+      const module = new Module(
+        id,
+        externalPackage.packageName,
+        externalPackage.packageName,
+        [],
+        new Set(),
+        new Set(),
+        { fileCount: 0, totalLines: 0, dependencyCount: 0, dependentCount: 0 }
+      );
+      module.markExternal({ packageName: externalPackage.packageName, builtin: externalPackage.builtin });
+      externalModules.set(id, module);
+    }
+
+    // Keep looking until some importer's package.json declares the package
+    const module = externalModules.get(id)!;
+    if (!externalPackage.builtin && !module.external!.version && importingFile && options.packageManifests) {
+      module.external!.version = this.externalPackageResolver.getVersion(
+        externalPackage.packageName,
+        importingFile,
+        options.packageManifests
+      );
+    }
+
+    return module;
   }
 
   /**
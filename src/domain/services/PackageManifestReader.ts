@@ -0,0 +1,71 @@
+/**
+ * PackageManifestReader - Reads the package.json fields import resolution depends on
+ */
+
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+export interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;                   // "types", or the older "typings"
+  workspaces: string[];             // "workspaces" globs, given as an array or as { packages }
+  dependencies: Record<string, string>;  // Version ranges from all DEPENDENCY_FIELDS, earlier fields first
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+export class PackageManifestReader {
+  /**
+   * Read the package.json in a directory
+   * Fields of the wrong type are left out.
+   * @returns undefined when there is no package.json or it is not a JSON object
+   */
+  async read(dir: string): Promise<PackageManifest | undefined> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+    if (!this.isObject(raw)) return undefined;
+
+    const manifest = raw;
+    const text = (key: string) => typeof manifest[key] === 'string' ? manifest[key] as string : undefined;
+    const workspaces = this.isObject(manifest.workspaces) ? manifest.workspaces.packages : manifest.workspaces;
+
+    return {
+      name: text('name'),
+      main: text('main'),
+      module: text('module'),
+      types: text('types') ?? text('typings'),
+      workspaces: Array.isArray(workspaces) ? workspaces.filter((w): w is string => typeof w === 'string') : [],
+      dependencies: this.readDependencies(manifest)
+    };
+  }
+
+  /**
+   * Merge the dependency fields; a package listed in several keeps its first version range
+   */
+  private readDependencies(manifest: Record<string, unknown>): Record<string, string> {
+    const dependencies: Record<string, string> = {};
+
+    for (const field of DEPENDENCY_FIELDS) {
+      const declared = manifest[field];
+      if (!this.isObject(declared)) continue;
+
+      for (const [name, version] of Object.entries(declared)) {
+        if (typeof version === 'string' && !Object.hasOwn(dependencies, name)) {
+          dependencies[name] = version;
+        }
+      }
+    }
+
+    return dependencies;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
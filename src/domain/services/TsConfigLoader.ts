@@ -0,0 +1,233 @@
+/**
+ * TsConfigLoader - Service for reading path alias settings from tsconfig.json
+ */
+
+import { Logger } from '@garrick0/c3-shared';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * Effective `baseUrl` and `paths` after following the `extends` chain
+ */
+export interface TsConfigPathMapping {
+  configPath: string;                 // tsconfig the mapping was loaded from
+  baseUrl?: string;                   // absolute
+  pathsBasePath: string;              // absolute directory `paths` targets are relative to
+  paths: Record<string, string[]>;
+}
+
+interface CompilerPathOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsBasePath?: string;
+}
+
+export class TsConfigLoader {
+  constructor(private logger: Logger) {}
+
+  /**
+   * Load the path mapping from an explicit tsconfig, or the nearest tsconfig.json at or above startPath
+   * @returns undefined when no tsconfig is found
+   */
+  async load(startPath: string, tsconfigPath?: string): Promise<TsConfigPathMapping | undefined> {
+    const configPath = tsconfigPath
+      ? path.resolve(startPath, tsconfigPath)
+      : await this.findNearest(startPath);
+
+    if (!configPath) {
+      return undefined;
+    }
+
+    const options = await this.readCompilerOptions(configPath, new Set());
+
+    const mapping: TsConfigPathMapping = {
+      configPath,
+      baseUrl: options.baseUrl,
+      pathsBasePath: options.pathsBasePath ?? options.baseUrl ?? path.dirname(configPath),
+      paths: options.paths ?? {}
+    };
+
+    this.logger.info('Loaded tsconfig path mapping', {
+      configPath,
+      baseUrl: mapping.baseUrl,
+      aliases: Object.keys(mapping.paths).length
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Find tsconfig.json at or above a directory
+   */
+  private async findNearest(startPath: string): Promise<string | undefined> {
+    let currentDir = path.resolve(startPath);
+
+    while (true) {
+      const candidate = path.join(currentDir, 'tsconfig.json');
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // Not found, continue
+      }
+
+      const parentDir = path.dirname(currentDir);
+      if (parentDir === currentDir) {
+        return undefined;
+      }
+      currentDir = parentDir;
+    }
+  }
+
+  /**
+   * Read baseUrl/paths from a tsconfig, merged over its `extends` chain
+   * Relative settings are resolved against the file that declares them.
+   */
+  private async readCompilerOptions(configPath: string, seen: Set<string>): Promise<CompilerPathOptions> {
+    if (seen.has(configPath)) {
+      throw new Error(`Circular tsconfig "extends" chain at ${configPath}`);
+    }
+    seen.add(configPath);
+
+    const config = this.parseJsonc(await fs.readFile(configPath, 'utf-8'), configPath);
+    const configDir = path.dirname(configPath);
+    const invalid = (message: string) => new Error(`Invalid tsconfig ${configPath}: ${message}`);
+
+    if (!this.isObject(config)) throw invalid('must be a JSON object');
+    const compilerOptions = config.compilerOptions ?? {};
+    if (!this.isObject(compilerOptions)) throw invalid('"compilerOptions" must be an object');
+    const { baseUrl, paths } = compilerOptions;
+
+    const parents: unknown[] = config.extends === undefined ? []
+      : Array.isArray(config.extends) ? config.extends : [config.extends];
+    if (!parents.every((parent): parent is string => typeof parent === 'string')) {
+      throw invalid('"extends" must be a path or a list of paths');
+    }
+    if (baseUrl !== undefined && typeof baseUrl !== 'string') {
+      throw invalid('"compilerOptions.baseUrl" must be a path');
+    }
+    if (paths !== undefined && !this.isPathMap(paths)) {
+      throw invalid('"compilerOptions.paths" must map each pattern to a list of paths');
+    }
+
+    // Later entries of an "extends" array override earlier ones
+    let inherited: CompilerPathOptions = {};
+    for (const parent of parents) {
+      const parentPath = await this.resolveExtends(parent, configDir);
+      if (!parentPath) {
+        this.logger.debug(`Could not resolve tsconfig "extends": ${parent}`, { configPath });
+        continue;
+      }
+      inherited = { ...inherited, ...this.definedOnly(await this.readCompilerOptions(parentPath, seen)) };
+    }
+
+    const merged: CompilerPathOptions = {
+      ...inherited,
+      ...this.definedOnly({
+        baseUrl: baseUrl !== undefined ? path.resolve(configDir, baseUrl) : undefined,
+        paths
+      })
+    };
+
+    // `paths` targets are relative to the effective baseUrl, or to the declaring tsconfig without one
+    if (paths !== undefined) {
+      merged.pathsBasePath = merged.baseUrl ?? configDir;
+    } else if (baseUrl !== undefined) {
+      merged.pathsBasePath = merged.baseUrl;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Resolve an "extends" value: a relative path or a package in node_modules
+   */
+  private async resolveExtends(specifier: string, configDir: string): Promise<string | undefined> {
+    const candidates: string[] = [];
+
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      const resolved = path.resolve(configDir, specifier);
+      candidates.push(resolved, resolved + '.json');
+    } else {
+      let dir = configDir;
+      while (true) {
+        const resolved = path.join(dir, 'node_modules', specifier);
+        candidates.push(resolved, resolved + '.json', path.join(resolved, 'tsconfig.json'));
+        const parentDir = path.dirname(dir);
+        if (parentDir === dir) break;
+        dir = parentDir;
+      }
+    }
+
+    for (const candidate of candidates) {
+      try {
+        const stat = await fs.stat(candidate);
+        if (stat.isFile()) return candidate;
+      } catch {
+        // Not found, continue
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse tsconfig's JSON-with-comments dialect (comments and trailing commas)
+   * Both are removed outside strings only, so string values keep their text.
+   */
+  private parseJsonc(content: string, configPath: string): unknown {
+    let output = '';
+    let inString = false;
+    let trailingComma: number | undefined;   // output index of a comma with nothing after it yet
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inString) {
+        output += char;
+        if (char === '\\') {
+          output += content[++i] ?? '';
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '/' && content[i + 1] === '/') {
+        while (i < content.length && content[i] !== '\n') i++;
+        output += '\n';
+      } else if (char === '/' && content[i + 1] === '*') {
+        i = content.indexOf('*/', i + 2);
+        if (i === -1) break;
+        i++;
+      } else if (/\s/.test(char)) {
+        output += char;
+      } else {
+        if ((char === '}' || char === ']') && trailingComma !== undefined) {
+          output = output.slice(0, trailingComma) + output.slice(trailingComma + 1);
+        }
+        trailingComma = char === ',' ? output.length : undefined;
+        inString = char === '"';
+        output += char;
+      }
+    }
+
+    try {
+      return JSON.parse(output);
+    } catch (error) {
+      throw new Error(`Failed to parse ${configPath}: ${(error as Error).message}`);
+    }
+  }
+
+  private isPathMap(value: unknown): value is Record<string, string[]> {
+    return this.isObject(value) && Object.values(value).every(targets =>
+      Array.isArray(targets) && targets.every(target => typeof target === 'string'));
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private definedOnly(options: CompilerPathOptions): CompilerPathOptions {
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as CompilerPathOptions;
+  }
+}
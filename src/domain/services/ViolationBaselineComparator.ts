@@ -0,0 +1,162 @@
+/**
+ * ViolationBaselineComparator - Splits layer and rule violations into new and baselined ones
+ */
+
+import { type LayerViolation } from '../entities/LayerProjection.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../entities/ModuleProjection.js';
+import { type FileImportPair } from '../entities/Module.js';
+import { type ArchitectureViolation } from './ArchitectureRuleEvaluator.js';
+import {
+  type BaselineComparison,
+  type BaselineEntry,
+  type ViolationBaseline
+} from '../value-objects/ViolationBaseline.js';
+import * as path from 'path';
+
+export class ViolationBaselineComparator {
+  /**
+   * Create a baseline accepting the given entries
+   */
+  createBaseline(entries: BaselineEntry[]): ViolationBaseline {
+    const unique = new Map(entries.map(entry => [this.key(entry), entry]));
+
+    return {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries: Array.from(unique.keys()).sort().map(key => unique.get(key)!)
+    };
+  }
+
+  /**
+   * Baseline entries for LayerProjection violations
+   */
+  fromLayerViolations(violations: LayerViolation[], rootPath: string): BaselineEntry[] {
+    return violations.map(violation => this.layerEntry(violation, rootPath));
+  }
+
+  /**
+   * Baseline entries for architecture rule violations, one per offending file pair
+   */
+  fromRuleViolations(violations: ArchitectureViolation[], projection: ModuleProjection): BaselineEntry[] {
+    return violations.flatMap(violation => this.ruleEntries(violation, projection).map(({ entry }) => entry));
+  }
+
+  /**
+   * Compare LayerProjection violations with the layer entries of a baseline
+   */
+  compareLayerViolations(
+    violations: LayerViolation[],
+    baseline: ViolationBaseline,
+    rootPath: string
+  ): BaselineComparison<LayerViolation> {
+    const known = this.keysOf(baseline, 'layer');
+    const reported = new Set<string>();
+
+    const newViolations = violations.filter(violation => {
+      const key = this.key(this.layerEntry(violation, rootPath));
+      reported.add(key);
+      return !known.has(key);
+    });
+
+    return this.compare(newViolations, baseline, 'layer', reported);
+  }
+
+  /**
+   * Compare architecture rule violations with the rule entries of a baseline
+   * A violation whose file pairs are only partly baselined is reported with the new pairs only.
+   */
+  compareRuleViolations(
+    violations: ArchitectureViolation[],
+    projection: ModuleProjection,
+    baseline: ViolationBaseline
+  ): BaselineComparison<ArchitectureViolation> {
+    const known = this.keysOf(baseline, 'rule');
+    const reported = new Set<string>();
+
+    const newViolations = violations.flatMap(violation => {
+      const unknown = this.ruleEntries(violation, projection).filter(({ entry }) => {
+        const key = this.key(entry);
+        reported.add(key);
+        return !known.has(key);
+      });
+
+      if (unknown.length === 0) return [];
+      return [{ ...violation, imports: unknown.flatMap(({ pair }) => pair ? [pair] : []) }];
+    });
+
+    return this.compare(newViolations, baseline, 'rule', reported);
+  }
+
+  private compare<T>(
+    newViolations: T[],
+    baseline: ViolationBaseline,
+    kind: BaselineEntry['kind'],
+    reported: Set<string>
+  ): BaselineComparison<T> {
+    const entries = baseline.entries.filter(entry => entry.kind === kind);
+    const fixedEntries = entries.filter(entry => !reported.has(this.key(entry)));
+
+    return {
+      newViolations,
+      fixedEntries,
+      knownEntries: entries.length - fixedEntries.length
+    };
+  }
+
+  private layerEntry(violation: LayerViolation, rootPath: string): BaselineEntry {
+    return {
+      kind: 'layer',
+      from: violation.fromLayer ?? '',
+      to: violation.toLayer ?? '',
+      fromFile: this.relative(rootPath, violation.from),
+      toFile: this.relative(rootPath, violation.to)
+    };
+  }
+
+  /**
+   * One entry per file pair; a violation without recorded imports yields a single module-pair entry
+   */
+  private ruleEntries(
+    violation: ArchitectureViolation,
+    projection: ModuleProjection
+  ): Array<{ entry: BaselineEntry; pair?: FileImportPair }> {
+    const rootPath = (projection.metadata as ModuleProjectionMetadata).rootPath ?? '';
+    const entry = (pair?: FileImportPair): BaselineEntry => ({
+      kind: 'rule',
+      rule: violation.rule,
+      from: this.modulePath(violation.from, projection, rootPath),
+      to: this.modulePath(violation.to, projection, rootPath),
+      fromFile: pair ? this.relative(rootPath, pair.from) : '',
+      toFile: pair ? this.relative(rootPath, pair.to) : ''
+    });
+
+    return violation.imports.length > 0
+      ? violation.imports.map(pair => ({ entry: entry(pair), pair }))
+      : [{ entry: entry() }];
+  }
+
+  /**
+   * Module path relative to the root; package name for external modules
+   */
+  private modulePath(moduleId: string, projection: ModuleProjection, rootPath: string): string {
+    const module = projection.getModule(moduleId);
+    if (!module) return moduleId;
+    return module.isExternal() ? module.name : this.relative(rootPath, module.path);
+  }
+
+  /**
+   * Forward-slash path relative to the root; paths that are not absolute are kept as they are
+   */
+  private relative(rootPath: string, filePath: string): string {
+    const relativePath = path.isAbsolute(filePath) ? path.relative(rootPath, filePath) || '.' : filePath;
+    return relativePath.replace(/\\/g, '/');
+  }
+
+  private keysOf(baseline: ViolationBaseline, kind: BaselineEntry['kind']): Set<string> {
+    return new Set(baseline.entries.filter(entry => entry.kind === kind).map(entry => this.key(entry)));
+  }
+
+  private key(entry: BaselineEntry): string {
+    return JSON.stringify([entry.kind, entry.rule ?? '', entry.from, entry.to, entry.fromFile, entry.toFile]);
+  }
+}
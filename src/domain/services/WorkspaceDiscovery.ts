@@ -0,0 +1,132 @@
+/**
+ * WorkspaceDiscovery - Service for finding npm/yarn/pnpm workspace packages
+ */
+
+import { Logger } from '@garrick0/c3-shared';
+import { GlobPattern } from '../value-objects/GlobPattern.js';
+import { PackageManifestReader } from './PackageManifestReader.js';
+import { parse as parseYaml } from 'yaml';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+export interface WorkspacePackage {
+  name: string;           // package.json "name"
+  path: string;           // absolute package directory
+  main?: string;
+  module?: string;
+  types?: string;
+}
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage']);
+
+export class WorkspaceDiscovery {
+  private manifestReader = new PackageManifestReader();
+
+  constructor(private logger: Logger) {}
+
+  /**
+   * Find the workspace root at or above startPath and list its packages
+   * Reads `workspaces` from package.json (array or { packages }) and
+   * `packages` from pnpm-workspace.yaml. Returns [] outside a workspace.
+   */
+  async discover(startPath: string): Promise<WorkspacePackage[]> {
+    let currentDir = path.resolve(startPath);
+
+    while (true) {
+      const patterns = await this.readWorkspacePatterns(currentDir);
+      if (patterns.length > 0) {
+        const packages = await this.expandPatterns(currentDir, patterns);
+        this.logger.info(`Found ${packages.length} workspace packages`, { workspaceRoot: currentDir });
+        return packages;
+      }
+
+      const parentDir = path.dirname(currentDir);
+      if (parentDir === currentDir) {
+        return [];
+      }
+      currentDir = parentDir;
+    }
+  }
+
+  /**
+   * Read workspace globs declared in a directory, if any
+   */
+  private async readWorkspacePatterns(dir: string): Promise<string[]> {
+    const manifest = await this.manifestReader.read(dir);
+    if (manifest && manifest.workspaces.length > 0) {
+      return manifest.workspaces;
+    }
+
+    let pnpmWorkspace: unknown;
+    try {
+      pnpmWorkspace = parseYaml(await fs.readFile(path.join(dir, 'pnpm-workspace.yaml'), 'utf-8'));
+    } catch {
+      return [];
+    }
+    const packages = typeof pnpmWorkspace === 'object' && pnpmWorkspace !== null
+      ? (pnpmWorkspace as { packages?: unknown }).packages
+      : undefined;
+    return Array.isArray(packages) ? packages.filter((p): p is string => typeof p === 'string') : [];
+  }
+
+  /**
+   * Find package directories matching the workspace globs ("!" negates)
+   */
+  private async expandPatterns(workspaceRoot: string, patterns: string[]): Promise<WorkspacePackage[]> {
+    const includes = patterns.filter(p => !p.startsWith('!')).map(p => GlobPattern.create(p.replace(/\/$/, '')));
+    const excludes = patterns.filter(p => p.startsWith('!')).map(p => GlobPattern.create(p.slice(1).replace(/\/$/, '')));
+
+    // Only "**" reaches below the depth the globs spell out
+    const maxDepth = patterns.some(p => p.includes('**'))
+      ? Infinity
+      : Math.max(...patterns.map(p => p.replace(/^!/, '').replace(/\/$/, '').split('/').length));
+
+    const packages: WorkspacePackage[] = [];
+    const directories = await this.listDirectories(workspaceRoot, workspaceRoot, maxDepth);
+
+    for (const relativeDir of directories) {
+      if (!includes.some(g => g.matches(relativeDir)) || excludes.some(g => g.matches(relativeDir))) {
+        continue;
+      }
+
+      const packageDir = path.join(workspaceRoot, relativeDir);
+      const manifest = await this.manifestReader.read(packageDir);
+      if (!manifest?.name) continue;
+
+      packages.push({
+        name: manifest.name,
+        path: packageDir,
+        main: manifest.main,
+        module: manifest.module,
+        types: manifest.types
+      });
+    }
+
+    return packages;
+  }
+
+  /**
+   * Recursively list directories below root, relative to root, down to maxDepth levels
+   */
+  private async listDirectories(root: string, dir: string, maxDepth: number): Promise<string[]> {
+    if (maxDepth < 1) return [];
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const result: string[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() || IGNORED_DIRECTORIES.has(entry.name)) continue;
+
+      const fullPath = path.join(dir, entry.name);
+      result.push(GlobPattern.normalize(path.relative(root, fullPath)));
+      result.push(...await this.listDirectories(root, fullPath, maxDepth - 1));
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * ArchitectureRule - Declarative dependency constraints between modules
+ *
+ * Module patterns are globs (see GlobPattern) matched against the module path
+ * relative to the projection root, or against the module name. External
+ * modules only match by name, i.e. their package name.
+ */
+
+export type ArchitectureRuleType = 'forbidden' | 'allowed-only' | 'independent' | 'no-cycles';
+
+export type RuleSeverity = 'error' | 'warning';
+
+interface BaseArchitectureRule {
+  name: string;                     // unique, reported with every violation
+  description?: string;
+  severity?: RuleSeverity;          // default 'error'
+}
+
+/**
+ * Modules matching `from` must not depend on modules matching `to`
+ */
+export interface ForbiddenDependencyRule extends BaseArchitectureRule {
+  type: 'forbidden';
+  from: string[];
+  to: string[];
+}
+
+/**
+ * Modules matching `from` may only depend on modules matching `to`, or on each other
+ */
+export interface AllowedOnlyDependencyRule extends BaseArchitectureRule {
+  type: 'allowed-only';
+  from: string[];
+  to: string[];
+}
+
+/**
+ * Modules matching `scope` must not depend on anything outside it
+ */
+export interface IndependentScopeRule extends BaseArchitectureRule {
+  type: 'independent';
+  scope: string[];
+}
+
+/**
+ * Modules matching `scope` must not form dependency cycles among themselves
+ * Type-only dependencies are ignored, as in CycleAnalyzer.analyze().
+ */
+export interface NoCyclesRule extends BaseArchitectureRule {
+  type: 'no-cycles';
+  scope: string[];
+}
+
+export type ArchitectureRule =
+  | ForbiddenDependencyRule
+  | AllowedOnlyDependencyRule
+  | IndependentScopeRule
+  | NoCyclesRule;
+
+export interface ArchitectureRuleSet {
+  rules: ArchitectureRule[];
+}
+
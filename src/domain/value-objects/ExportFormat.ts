@@ -8,5 +8,6 @@ export enum ExportFormat {
   PNG = 'png',
   DOT = 'dot',
   MERMAID = 'mermaid',
-  CSV = 'csv'
+  CSV = 'csv',
+  SARIF = 'sarif'
 }
@@ -0,0 +1,98 @@
+/**
+ * GlobPattern - Path glob matcher used by layer, grouping and rule definitions
+ *
+ * Supports `**` (any number of path segments), `*` (anything within a segment),
+ * `?` (single character) and `{a,b}` alternation. Every wildcard is a capture
+ * group, so matches can be substituted into `$1`, `$2`, ... templates.
+ */
+
+export class GlobPattern {
+  private readonly regex: RegExp;
+
+  private constructor(public readonly source: string) {
+    this.regex = GlobPattern.toRegExp(GlobPattern.normalize(source));
+  }
+
+  static create(pattern: string): GlobPattern {
+    return new GlobPattern(pattern);
+  }
+
+  /**
+   * Check if a (relative, forward-slash) path matches this pattern
+   */
+  matches(filePath: string): boolean {
+    return this.regex.test(GlobPattern.normalize(filePath));
+  }
+
+  /**
+   * Match a path and return the wildcard captures, or undefined if it does not match
+   */
+  exec(filePath: string): string[] | undefined {
+    const match = this.regex.exec(GlobPattern.normalize(filePath));
+    if (!match) return undefined;
+    return match.slice(1).map(capture => capture ?? '');
+  }
+
+  /**
+   * Normalize a path to forward slashes without a leading "./"
+   */
+  static normalize(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  }
+
+  /**
+   * Convert a glob to an anchored regular expression
+   */
+  private static toRegExp(glob: string): RegExp {
+    let pattern = '';
+    let i = 0;
+
+    while (i < glob.length) {
+      const char = glob[i];
+
+      if (char === '*' && glob[i + 1] === '*') {
+        const followedBySlash = glob[i + 2] === '/';
+        const precededBySlash = pattern.endsWith('/');
+
+        if (followedBySlash) {
+          // "**/" - zero or more leading directories
+          pattern += '(?:(.*)/)?';
+          i += 3;
+        } else if (precededBySlash && i + 2 === glob.length) {
+          // trailing "/**" - the directory itself or anything below it
+          pattern = pattern.slice(0, -1) + '(?:/(.*))?';
+          i += 2;
+        } else {
+          pattern += '(.*)';
+          i += 2;
+        }
+        continue;
+      }
+
+      if (char === '*') {
+        pattern += '([^/]*)';
+      } else if (char === '?') {
+        pattern += '([^/])';
+      } else if (char === '{') {
+        const close = glob.indexOf('}', i);
+        if (close === -1) {
+          pattern += '\\{';
+        } else {
+          const alternatives = glob.slice(i + 1, close).split(',').map(a => GlobPattern.escape(a));
+          pattern += `(${alternatives.join('|')})`;
+          i = close;
+        }
+      } else {
+        pattern += GlobPattern.escape(char);
+      }
+
+      i++;
+    }
+
+    return new RegExp(`^${pattern}$`);
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * ImportDiagnostics - Imports dropped while building module dependencies, and why
+ */
+
+/**
+ * Best guess at why an import could not be resolved
+ * - alias: matches a tsconfig path alias, baseUrl or workspace package, or looks like one ('@/x', '~/x', '#x',
+ *   or, once package.json files are loaded, a package none of them declares)
+ * - external: an npm package or Node built-in
+ * - missing-file: a relative/absolute path with no matching source file
+ * - unsupported-extension: a path to a non-source file, e.g. './styles.css'
+ */
+export type UnresolvedImportCategory = 'alias' | 'external' | 'missing-file' | 'unsupported-extension';
+
+export interface UnresolvedImport {
+  specifier: string;
+  file: string;                     // importing file path
+  attempts: string[];               // candidate paths tried, in order
+  category: UnresolvedImportCategory;
+}
+
+export interface ImportDiagnostics {
+  totalImports: number;             // imports from files inside a module, after kind filters
+  resolvedImports: number;          // resolved to a source file
+  externalImports: number;          // attributed to an external package module
+  unresolved: UnresolvedImport[];
+  byCategory: Record<UnresolvedImportCategory, number>;
+}
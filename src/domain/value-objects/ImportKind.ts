@@ -0,0 +1,11 @@
+/**
+ * ImportKind - How a file refers to the file it imports
+ */
+
+export enum ImportKind {
+  TYPE_ONLY = 'type-only',       // import type { X } from './x'
+  VALUE = 'value',               // import { x } from './x'
+  SIDE_EFFECT = 'side-effect',   // import './x'
+  DYNAMIC = 'dynamic',           // await import('./x')
+  RE_EXPORT = 're-export'        // export * from './x'
+}
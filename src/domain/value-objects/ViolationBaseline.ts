@@ -0,0 +1,30 @@
+/**
+ * ViolationBaseline - Dependency violations accepted as existing debt
+ *
+ * Entries are keyed by module pair and file pair, with paths relative to the
+ * projection root, so a baseline recorded on one machine applies on another.
+ */
+
+export interface BaselineEntry {
+  kind: 'layer' | 'rule';
+  rule?: string;                    // architecture rule name (kind 'rule' only)
+  from: string;                     // importing layer name, or module path relative to the root
+  to: string;                       // imported layer name, or module path relative to the root
+  fromFile: string;                 // importing file, relative to the root
+  toFile: string;                   // imported file, relative to the root
+}
+
+export interface ViolationBaseline {
+  version: 1;
+  createdAt: string;                // ISO timestamp
+  entries: BaselineEntry[];         // sorted, without duplicates
+}
+
+/**
+ * Current violations split against a baseline
+ */
+export interface BaselineComparison<T> {
+  newViolations: T[];               // not covered by the baseline; these should fail checks
+  fixedEntries: BaselineEntry[];    // baselined but no longer reported; can be removed from the baseline
+  knownEntries: number;             // baseline entries still reported
+}
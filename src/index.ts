@@ -22,6 +22,11 @@ export * from './domain/value-objects/ProjectionType.js';
 export * from './domain/value-objects/AggregationLevel.js';
 export * from './domain/value-objects/ViewConfiguration.js';
 export * from './domain/value-objects/ExportFormat.js';
+export * from './domain/value-objects/GlobPattern.js';
+export * from './domain/value-objects/ImportKind.js';
+export * from './domain/value-objects/ImportDiagnostics.js';
+export * from './domain/value-objects/ArchitectureRule.js';
+export * from './domain/value-objects/ViolationBaseline.js';
 
 // Services
 export * from './domain/services/ProjectionEngine.js';
@@ -29,10 +34,25 @@ export * from './domain/services/GraphTransformer.js';
 export * from './domain/services/NodeAggregator.js';
 export * from './domain/services/MetricsCalculator.js';
 export * from './domain/services/LayoutEngine.js';
+export * from './domain/services/LayoutSelector.js';
 export * from './domain/services/GraphLoader.js';
 export * from './domain/services/ModuleAggregator.js';
 export * from './domain/services/ModuleDependencyCalculator.js';
 export * from './domain/services/GraphViewBuilder.js';
+export * from './domain/services/ImportResolver.js';
+export * from './domain/services/ImportMetadataReader.js';
+export * from './domain/services/ExternalPackageResolver.js';
+export * from './domain/services/GraphAlgorithms.js';
+export * from './domain/services/CycleAnalyzer.js';
+export * from './domain/services/FeedbackArcSetCalculator.js';
+export * from './domain/services/CommunityDetector.js';
+export * from './domain/services/ArchitectureRuleEvaluator.js';
+export * from './domain/services/ArchitectureRulesLoader.js';
+export * from './domain/services/ViolationBaselineComparator.js';
+export * from './domain/services/WorkspaceDiscovery.js';
+export * from './domain/services/PackageManifestReader.js';
+export * from './domain/services/TsConfigLoader.js';
+export * from './domain/services/ImportResolverOptionsLoader.js';
 
 // Ports
 export * from './domain/ports/ProjectionStrategy.js';
@@ -40,10 +60,23 @@ export * from './domain/ports/Renderer.js';
 export * from './domain/ports/Exporter.js';
 export * from './domain/ports/ViewRepository.js';
 export * from './domain/ports/GraphLayoutEngine.js';
+export * from './domain/ports/ViolationBaselineRepository.js';
 
 // Infrastructure
 export * from './infrastructure/strategies/ModuleProjectionStrategy.js';
+export * from './infrastructure/strategies/LayerProjectionStrategy.js';
+export * from './infrastructure/strategies/DependencyMatrixProjectionStrategy.js';
+export * from './infrastructure/strategies/ComponentProjectionStrategy.js';
+export * from './infrastructure/strategies/TreeProjectionStrategy.js';
 export * from './infrastructure/layout-engines/DagreLayoutEngine.js';
+export * from './infrastructure/layout-engines/ForceDirectedLayoutEngine.js';
+export * from './infrastructure/layout-engines/CircularLayoutEngine.js';
+export * from './infrastructure/layout-engines/RadialLayoutEngine.js';
+export * from './infrastructure/layout-engines/ConcentricLayoutEngine.js';
+export * from './infrastructure/layout-engines/GridLayoutEngine.js';
+export * from './infrastructure/layout-engines/LayoutEngineRegistry.js';
 export * from './infrastructure/exporters/JSONGraphExporter.js';
 export * from './infrastructure/exporters/GraphMLExporter.js';
 export * from './infrastructure/exporters/SVGGraphExporter.js';
+export * from './infrastructure/exporters/SARIFExporter.js';
+export * from './infrastructure/persistence/FileViolationBaselineRepository.js';
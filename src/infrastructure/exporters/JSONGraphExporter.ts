@@ -8,6 +8,7 @@ import { Logger } from '@garrick0/c3-shared';
 export interface JSONExportOptions {
   pretty?: boolean;
   includeMetadata?: boolean;
+  analysis?: Record<string, any>;   // Extra analysis results written under "analysis", e.g. { cycleBreaks }
 }
 
 export class JSONGraphExporter {
@@ -28,10 +29,18 @@ export class JSONGraphExporter {
       edges: graphView.edges
     };
 
+    if (graphView.clusters.length > 0) {
+      output.clusters = graphView.clusters;
+    }
+
     if (options.includeMetadata !== false) {
       output.metadata = graphView.metadata;
     }
 
+    if (options.analysis) {
+      output.analysis = options.analysis;
+    }
+
     const json = options.pretty 
       ? JSON.stringify(output, null, 2)
       : JSON.stringify(output);
@@ -57,10 +66,18 @@ export class JSONGraphExporter {
       }
     };
 
+    if (graphView.clusters.length > 0) {
+      (output.graph as any).clusters = graphView.clusters;
+    }
+
     if (options.includeMetadata !== false) {
       (output as any).metadata = graphView.metadata;
     }
 
+    if (options.analysis) {
+      (output as any).analysis = options.analysis;
+    }
+
     return options.pretty 
       ? JSON.stringify(output, null, 2)
       : JSON.stringify(output);
@@ -0,0 +1,205 @@
+/**
+ * SARIFExporter - Exports layer and architecture rule violations as SARIF 2.1.0
+ * Consumed by code-scanning dashboards and editors to show findings inline
+ */
+
+import { PropertyGraph, EdgeType, type Edge } from '@garrick0/c3-parsing';
+import { Logger } from '@garrick0/c3-shared';
+import { type LayerViolation } from '../../domain/entities/LayerProjection.js';
+import { type ArchitectureViolation } from '../../domain/services/ArchitectureRuleEvaluator.js';
+import { type RuleSeverity } from '../../domain/value-objects/ArchitectureRule.js';
+import { ImportResolver, type ImportResolverOptions } from '../../domain/services/ImportResolver.js';
+import { ImportMetadataReader } from '../../domain/services/ImportMetadataReader.js';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+export interface SARIFExportOptions {
+  rootPath?: string;                 // Artifact URIs are made relative to this (as %SRCROOT%)
+  toolName?: string;                 // Default 'c3-projection'
+  toolVersion?: string;
+  layerSeverity?: RuleSeverity;      // Level of layer violations (default 'error')
+  resolverOptions?: ImportResolverOptions;  // Used to find the import statements behind rule violations
+  pretty?: boolean;
+}
+
+export interface SARIFViolations {
+  layers?: LayerViolation[];
+  rules?: ArchitectureViolation[];
+}
+
+interface SARIFRule {
+  id: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: RuleSeverity };
+}
+
+interface SARIFResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: RuleSeverity;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId?: string };
+      region?: { startLine: number };
+    };
+  }>;
+  properties: Record<string, unknown>;
+}
+
+interface SARIFRun {
+  tool: {
+    driver: { name: string; version?: string; rules: SARIFRule[] };
+  };
+  results: SARIFResult[];
+  originalUriBaseIds?: Record<string, { uri: string }>;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SOURCE_ROOT = '%SRCROOT%';
+
+export class SARIFExporter {
+  private metadataReader = new ImportMetadataReader();
+
+  constructor(private logger: Logger) {}
+
+  /**
+   * Export violations to a SARIF log with a single run
+   * Every violating import statement becomes one result, located at the
+   * importing file and the line recorded on its IMPORTS edge. Results whose
+   * edge cannot be found, or carries no line, point at the file only.
+   */
+  export(graph: PropertyGraph, violations: SARIFViolations, options: SARIFExportOptions = {}): string {
+    this.logger.info('Exporting violations to SARIF', {
+      layerViolations: violations.layers?.length ?? 0,
+      ruleViolations: violations.rules?.length ?? 0
+    });
+
+    const rules = new Map<string, SARIFRule>();
+    const results: SARIFResult[] = [];
+    const edges = new Map(graph.getEdges().map(edge => [edge.id, edge]));
+
+    const addResult = (
+      rule: SARIFRule,
+      level: RuleSeverity,
+      message: string,
+      file: string,
+      edge: Edge | undefined,
+      properties: Record<string, unknown>
+    ) => {
+      if (!rules.has(rule.id)) rules.set(rule.id, rule);
+
+      const line = edge ? this.metadataReader.getLine(edge) : undefined;
+      results.push({
+        ruleId: rule.id,
+        ruleIndex: Array.from(rules.keys()).indexOf(rule.id),
+        level,
+        message: { text: message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: this.artifactLocation(file, options.rootPath),
+            ...(line ? { region: { startLine: line } } : {})
+          }
+        }],
+        properties
+      });
+    };
+
+    const layerLevel = options.layerSeverity ?? 'error';
+    for (const violation of violations.layers ?? []) {
+      const rule = {
+        id: `layers/${violation.fromLayer ?? 'unknown'}->${violation.toLayer ?? 'unknown'}`,
+        shortDescription: { text: violation.reason },
+        defaultConfiguration: { level: layerLevel }
+      };
+      addResult(rule, layerLevel, `${violation.reason}: imports ${this.displayPath(violation.to, options.rootPath)}`,
+        violation.from, violation.edgeId ? edges.get(violation.edgeId) : undefined, {
+          fromLayer: violation.fromLayer,
+          toLayer: violation.toLayer,
+          importedFile: violation.to
+        });
+    }
+
+    if (violations.rules?.length) {
+      const resolver = new ImportResolver(graph, options.resolverOptions);
+      const importsByFile = this.indexImports(graph, resolver);
+
+      for (const violation of violations.rules) {
+        const rule = {
+          id: violation.rule,
+          shortDescription: { text: `Architecture rule '${violation.rule}' (${violation.type})` },
+          defaultConfiguration: { level: violation.severity }
+        };
+
+        for (const pair of violation.imports) {
+          const statements = (importsByFile.get(pair.from) ?? [])
+            .filter(({ edge, target }) => target === pair.to || edge.toNodeId === pair.to)
+            .map(({ edge }) => edge);
+          const properties = { fromModule: violation.from, toModule: violation.to, importedFile: pair.to, symbols: pair.symbols };
+          const message = `${violation.message}: imports ${this.displayPath(pair.to, options.rootPath)}`;
+
+          if (statements.length === 0) {
+            addResult(rule, violation.severity, message, pair.from, undefined, properties);
+          }
+          for (const edge of statements) {
+            addResult(rule, violation.severity, message, pair.from, edge, properties);
+          }
+        }
+      }
+    }
+
+    const run: SARIFRun = {
+      tool: {
+        driver: {
+          name: options.toolName ?? 'c3-projection',
+          ...(options.toolVersion ? { version: options.toolVersion } : {}),
+          rules: Array.from(rules.values())
+        }
+      },
+      results
+    };
+
+    if (options.rootPath) {
+      run.originalUriBaseIds = {
+        [SOURCE_ROOT]: { uri: pathToFileURL(path.resolve(options.rootPath) + path.sep).href }
+      };
+    }
+
+    const sarif = { $schema: SARIF_SCHEMA, version: '2.1.0', runs: [run] };
+    const json = options.pretty ? JSON.stringify(sarif, null, 2) : JSON.stringify(sarif);
+
+    this.logger.info('SARIF export complete', { rules: rules.size, results: results.length });
+
+    return json;
+  }
+
+  /**
+   * Group IMPORTS edges by importing file path, with the resolved target file path
+   */
+  private indexImports(graph: PropertyGraph, resolver: ImportResolver): Map<string, Array<{ edge: Edge; target?: string }>> {
+    const index = new Map<string, Array<{ edge: Edge; target?: string }>>();
+
+    for (const edge of graph.getEdges().filter(e => e.type === EdgeType.IMPORTS)) {
+      const file = resolver.getFilePath(edge.fromNodeId);
+      if (!file) continue;
+
+      const targetNodeId = resolver.resolve(edge);
+      const entries = index.get(file) ?? [];
+      entries.push({ edge, target: targetNodeId ? resolver.getFilePath(targetNodeId) : undefined });
+      index.set(file, entries);
+    }
+
+    return index;
+  }
+
+  private artifactLocation(file: string, rootPath?: string): { uri: string; uriBaseId?: string } {
+    if (rootPath && path.isAbsolute(file)) {
+      return { uri: encodeURI(path.relative(rootPath, file).replace(/\\/g, '/')), uriBaseId: SOURCE_ROOT };
+    }
+    return { uri: path.isAbsolute(file) ? pathToFileURL(file).href : encodeURI(file.replace(/\\/g, '/')) };
+  }
+
+  private displayPath(file: string, rootPath?: string): string {
+    return rootPath && path.isAbsolute(file) ? path.relative(rootPath, file) : file;
+  }
+}
@@ -2,7 +2,12 @@
  * SVGGraphExporter - Exports GraphView to SVG format
  */
 
-import { GraphView } from '../../domain/entities/GraphView.js';
+import {
+  GraphView,
+  type GraphViewCluster,
+  type GraphViewNode,
+  type GraphViewPoint
+} from '../../domain/entities/GraphView.js';
 import { Logger } from '@garrick0/c3-shared';
 
 export interface SVGExportOptions {
@@ -12,8 +17,12 @@ export interface SVGExportOptions {
   showLabels?: boolean;
   nodeRadius?: number;
   arrowSize?: number;
+  edgeStyle?: 'straight' | 'polyline' | 'spline';  // How routed edges are drawn (default 'spline'); unrouted edges are straight
+  edgeWidth?: 'fixed' | 'weight';  // Stroke width of 2, or growing with edge weight (default 'fixed')
 }
 
+const CLUSTER_FILLS = ['#f1f2f6', '#e4e7ee', '#d7dbe5'];   // by nesting depth
+
 export class SVGGraphExporter {
   constructor(private logger: Logger) {}
 
@@ -30,7 +39,10 @@ export class SVGGraphExporter {
       throw new Error('GraphView must have layout information (x, y coordinates) before exporting to SVG');
     }
 
-    const bbox = graphView.getBoundingBox()!;
+    const clusters = graphView.clusters
+      .filter(c => c.x !== undefined && c.y !== undefined && c.width !== undefined && c.height !== undefined)
+      .sort((a, b) => graphView.getClusterDepth(a.id) - graphView.getClusterDepth(b.id));
+    const bbox = this.getBounds(graphView, clusters);
     const padding = options.padding || 20;
     
     // Calculate dimensions
@@ -40,8 +52,9 @@ export class SVGGraphExporter {
     const svgHeight = options.height || graphHeight + (padding * 2);
 
     // Calculate scale and offset to fit graph in SVG viewport
-    const scaleX = (svgWidth - padding * 2) / graphWidth;
-    const scaleY = (svgHeight - padding * 2) / graphHeight;
+    // (a graph with no extent along an axis, e.g. a single column, has nothing to fit along it)
+    const scaleX = graphWidth > 0 ? (svgWidth - padding * 2) / graphWidth : Infinity;
+    const scaleY = graphHeight > 0 ? (svgHeight - padding * 2) / graphHeight : Infinity;
     const scale = Math.min(scaleX, scaleY, 1); // Don't scale up, only down
     
     const offsetX = padding - (bbox.minX * scale);
@@ -54,26 +67,55 @@ export class SVGGraphExporter {
     svg += '    </marker>\n';
     svg += '  </defs>\n\n';
 
+    // Draw clusters first, outermost first, so they sit behind everything they contain
+    if (clusters.length > 0) {
+      svg += '  <g class="clusters">\n';
+      for (const cluster of clusters) {
+        const width = cluster.width! * scale;
+        const height = cluster.height! * scale;
+        const rectX = cluster.x! * scale + offsetX - width / 2;
+        const rectY = cluster.y! * scale + offsetY - height / 2;
+        const fill = CLUSTER_FILLS[Math.min(graphView.getClusterDepth(cluster.id), CLUSTER_FILLS.length - 1)];
+
+        svg += '    <g>\n';
+        svg += `      <rect x="${rectX}" y="${rectY}" width="${width}" height="${height}" `;
+        svg += `fill="${fill}" stroke="#a4b0be" stroke-width="1" stroke-dasharray="4 2" rx="8" />\n`;
+        svg += `      <text x="${rectX + 8}" y="${rectY + 16}" fill="#57606f" `;
+        svg += `font-family="Arial, sans-serif" font-size="12" font-weight="bold">${this.escapeXml(cluster.label)}</text>\n`;
+        svg += '    </g>\n';
+      }
+      svg += '  </g>\n\n';
+    }
+
     // Draw edges first (so they appear behind nodes)
+    const edgeStyle = options.edgeStyle ?? 'spline';
+    const project = (p: GraphViewPoint): GraphViewPoint => ({ x: p.x * scale + offsetX, y: p.y * scale + offsetY });
     svg += '  <g class="edges">\n';
     for (const edge of graphView.edges) {
       const fromNode = graphView.getNode(edge.from);
       const toNode = graphView.getNode(edge.to);
       
       if (fromNode && toNode && fromNode.x !== undefined && toNode.x !== undefined) {
-        const x1 = fromNode.x * scale + offsetX;
-        const y1 = fromNode.y! * scale + offsetY;
-        const x2 = toNode.x * scale + offsetX;
-        const y2 = toNode.y! * scale + offsetY;
-
-        // Calculate arrow endpoint (stop before node)
-        const angle = Math.atan2(y2 - y1, x2 - x1);
-        const nodeRadius = (toNode.width || 100) / 2 * scale;
-        const arrowX2 = x2 - Math.cos(angle) * nodeRadius;
-        const arrowY2 = y2 - Math.sin(angle) * nodeRadius;
-
-        svg += `    <line x1="${x1}" y1="${y1}" x2="${arrowX2}" y2="${arrowY2}" `;
-        svg += `stroke="${edge.color || '#999'}" stroke-width="2" marker-end="url(#arrowhead)" />\n`;
+        const route = this.getRoute(fromNode, toNode, edgeStyle === 'straight' ? undefined : edge.points).map(project);
+        const stroke = `stroke="${edge.color || '#999'}" stroke-width="${this.getStrokeWidth(edge.weight, options.edgeWidth)}" marker-end="url(#arrowhead)"`;
+
+        if (route.length === 2) {
+          const [start, end] = route;
+          svg += `    <line x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}" ${stroke} />\n`;
+        } else if (edgeStyle === 'polyline') {
+          svg += `    <polyline points="${route.map(p => `${p.x},${p.y}`).join(' ')}" fill="none" ${stroke} />\n`;
+        } else {
+          svg += `    <path d="${this.getSplinePath(route)}" fill="none" ${stroke} />\n`;
+        }
+
+        if (options.showLabels !== false && edge.label) {
+          const position = edgeStyle !== 'straight' && edge.labelX !== undefined && edge.labelY !== undefined
+            ? project({ x: edge.labelX, y: edge.labelY })
+            : this.getMidpoint(route);
+          svg += `    <text x="${position.x}" y="${position.y}" text-anchor="middle" dominant-baseline="middle" `;
+          svg += `fill="#57606f" stroke="white" stroke-width="3" paint-order="stroke" `;
+          svg += `font-family="Arial, sans-serif" font-size="11">${this.escapeXml(edge.label)}</text>\n`;
+        }
       }
     }
     svg += '  </g>\n\n';
@@ -114,6 +156,113 @@ export class SVGGraphExporter {
     return svg;
   }
 
+  /**
+   * Bounding box of node centres, widened to include cluster boxes and edge routes
+   */
+  private getBounds(graphView: GraphView, clusters: GraphViewCluster[]): { minX: number; minY: number; maxX: number; maxY: number } {
+    const bbox = graphView.getBoundingBox()!;
+
+    for (const cluster of clusters) {
+      bbox.minX = Math.min(bbox.minX, cluster.x! - cluster.width! / 2);
+      bbox.minY = Math.min(bbox.minY, cluster.y! - cluster.height! / 2);
+      bbox.maxX = Math.max(bbox.maxX, cluster.x! + cluster.width! / 2);
+      bbox.maxY = Math.max(bbox.maxY, cluster.y! + cluster.height! / 2);
+    }
+
+    for (const point of graphView.edges.flatMap(e => e.points ?? [])) {
+      bbox.minX = Math.min(bbox.minX, point.x);
+      bbox.minY = Math.min(bbox.minY, point.y);
+      bbox.maxX = Math.max(bbox.maxX, point.x);
+      bbox.maxY = Math.max(bbox.maxY, point.y);
+    }
+
+    return bbox;
+  }
+
+  /**
+   * Points an edge passes through, in layout coordinates, starting and ending
+   * on the boundary of its nodes. Without routing points the edge runs straight
+   * between the node centres.
+   */
+  private getRoute(fromNode: GraphViewNode, toNode: GraphViewNode, points?: GraphViewPoint[]): GraphViewPoint[] {
+    const from = { x: fromNode.x!, y: fromNode.y! };
+    const to = { x: toNode.x!, y: toNode.y! };
+    const route = points && points.length >= 2 ? points.map(p => ({ ...p })) : [from, to];
+
+    route[0] = this.intersectNode(fromNode, route[1]);
+    route[route.length - 1] = this.intersectNode(toNode, route[route.length - 2]);
+
+    return route;
+  }
+
+  /**
+   * Where the line from a node's centre towards a point leaves the node's box
+   */
+  private intersectNode(node: GraphViewNode, towards: GraphViewPoint): GraphViewPoint {
+    const dx = towards.x - node.x!;
+    const dy = towards.y - node.y!;
+    const halfWidth = (node.width || 100) / 2;
+    const halfHeight = (node.height || 50) / 2;
+
+    // Point inside the box (overlapping nodes, self-loops): nothing to clip against
+    if (Math.abs(dx) <= halfWidth && Math.abs(dy) <= halfHeight) {
+      return { x: node.x!, y: node.y! };
+    }
+
+    const t = Math.min(
+      dx === 0 ? Infinity : halfWidth / Math.abs(dx),
+      dy === 0 ? Infinity : halfHeight / Math.abs(dy)
+    );
+    return { x: node.x! + dx * t, y: node.y! + dy * t };
+  }
+
+  /**
+   * Smooth path through every route point (Catmull-Rom converted to cubic Béziers),
+   * so the curve still starts and ends exactly on the node boundaries
+   */
+  private getSplinePath(route: GraphViewPoint[]): string {
+    let d = `M${route[0].x},${route[0].y}`;
+
+    for (let i = 0; i < route.length - 1; i++) {
+      const p0 = route[Math.max(i - 1, 0)];
+      const p1 = route[i];
+      const p2 = route[i + 1];
+      const p3 = route[Math.min(i + 2, route.length - 1)];
+
+      const c1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+      const c2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+      d += ` C${c1.x},${c1.y} ${c2.x},${c2.y} ${p2.x},${p2.y}`;
+    }
+
+    return d;
+  }
+
+  /**
+   * Point halfway along a route, measured by length
+   */
+  private getMidpoint(route: GraphViewPoint[]): GraphViewPoint {
+    const lengths = route.slice(1).map((p, i) => Math.hypot(p.x - route[i].x, p.y - route[i].y));
+    let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+
+    for (let i = 0; i < lengths.length; i++) {
+      if (remaining <= lengths[i] && lengths[i] > 0) {
+        const t = remaining / lengths[i];
+        return { x: route[i].x + (route[i + 1].x - route[i].x) * t, y: route[i].y + (route[i + 1].y - route[i].y) * t };
+      }
+      remaining -= lengths[i];
+    }
+
+    return route[0];
+  }
+
+  /**
+   * Stroke width for an edge: fixed at 2, or growing logarithmically from 2 with weight
+   */
+  private getStrokeWidth(weight: number = 1, edgeWidth: SVGExportOptions['edgeWidth'] = 'fixed'): number {
+    if (edgeWidth === 'fixed') return 2;
+    return Math.round(Math.min(2 + Math.log2(Math.max(weight, 1)), 8) * 100) / 100;
+  }
+
   /**
    * Escape XML special characters
    */
@@ -0,0 +1,106 @@
+/**
+ * CircularLayoutEngine - Places all nodes on one circle, keeping related nodes together
+ */
+
+import { GraphLayoutEngine } from '../../domain/ports/GraphLayoutEngine.js';
+import { GraphView, type GraphViewNode } from '../../domain/entities/GraphView.js';
+import { GraphAlgorithms } from '../../domain/services/GraphAlgorithms.js';
+import { CommunityDetector } from '../../domain/services/CommunityDetector.js';
+import { RingPlacement } from './RingPlacement.js';
+import { LayoutFinisher } from './LayoutFinisher.js';
+import { Logger } from '@garrick0/c3-shared';
+
+export interface CircularLayoutConfig {
+  order?: 'community' | 'scc' | 'input'; // Keep communities or strongly connected components adjacent (default 'community')
+  radius?: number;                       // Minimum radius; grows so nodes do not overlap
+  nodeSpacing?: number;                  // Minimum gap between neighbouring nodes (default 20)
+  marginx?: number;                      // Horizontal margin
+  marginy?: number;                      // Vertical margin
+}
+
+export class CircularLayoutEngine implements GraphLayoutEngine {
+  private algorithms = new GraphAlgorithms();
+  private rings = new RingPlacement();
+  private finisher = new LayoutFinisher();
+
+  constructor(
+    private config: CircularLayoutConfig = {},
+    private logger: Logger
+  ) {}
+
+  getName(): string {
+    return 'circular';
+  }
+
+  async layout(graphView: GraphView): Promise<GraphView> {
+    const config = {
+      order: this.config.order ?? 'community',
+      radius: this.config.radius ?? 0,
+      nodeSpacing: this.config.nodeSpacing ?? 20,
+      marginx: this.config.marginx ?? 20,
+      marginy: this.config.marginy ?? 20
+    };
+
+    this.logger.info('Applying circular layout', {
+      nodes: graphView.getNodeCount(),
+      edges: graphView.getEdgeCount(),
+      config
+    });
+
+    if (graphView.getNodeCount() === 0) return graphView;
+
+    const groups = this.groupNodes(graphView, config.order);
+    const ordered = groups.flat();
+    this.rings.placeRing(ordered, this.rings.radiusFor(ordered, config.nodeSpacing, config.radius));
+    this.finisher.finish(graphView, config.marginx, config.marginy);
+
+    graphView.metadata.layout = 'circular';
+    graphView.metadata.layoutConfig = config;
+
+    this.logger.info('Circular layout complete', {
+      groups: groups.length,
+      boundingBox: graphView.getBoundingBox()
+    });
+
+    return graphView;
+  }
+
+  /**
+   * Split nodes into groups placed side by side around the circle, so that
+   * most edges run between neighbours rather than across the middle
+   * - community: Louvain communities, largest first
+   * - scc: strongly connected components, dependencies before their dependents
+   * - input: one group in view order
+   * Nodes within a group are in ID order.
+   */
+  private groupNodes(graphView: GraphView, order: NonNullable<CircularLayoutConfig['order']>): GraphViewNode[][] {
+    if (order === 'input') return [[...graphView.nodes]];
+
+    const byId = new Map(graphView.nodes.map(n => [n.id, n]));
+    const ids = Array.from(byId.keys()).sort();
+    const edges = graphView.edges.filter(e => byId.has(e.from) && byId.has(e.to));
+    let groups: string[][];
+
+    if (order === 'scc') {
+      const adjacency = new Map(ids.map(id => [id, new Set<string>()]));
+      for (const edge of edges) adjacency.get(edge.from)!.add(edge.to);
+      for (const [id, successors] of adjacency) adjacency.set(id, new Set(Array.from(successors).sort()));
+
+      groups = this.algorithms.stronglyConnectedComponents(adjacency).map(component => component.sort());
+    } else {
+      const communities = new CommunityDetector(this.logger).findCommunities(
+        ids,
+        edges.map(e => ({ from: e.from, to: e.to, importCount: e.weight ?? 1 }))
+      );
+
+      const members = new Map<number, string[]>();
+      for (const id of ids) {
+        const community = communities.get(id)!;
+        members.set(community, [...(members.get(community) ?? []), id]);
+      }
+      groups = Array.from(members.values()).sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+    }
+
+    return groups.map(group => group.map(id => byId.get(id)!));
+  }
+}
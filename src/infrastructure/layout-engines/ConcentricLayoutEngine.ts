@@ -0,0 +1,100 @@
+/**
+ * ConcentricLayoutEngine - Rings by a node metric, the highest values in the middle
+ */
+
+import { GraphLayoutEngine } from '../../domain/ports/GraphLayoutEngine.js';
+import { GraphView, type GraphViewNode } from '../../domain/entities/GraphView.js';
+import { RingPlacement } from './RingPlacement.js';
+import { LayoutFinisher } from './LayoutFinisher.js';
+import { Logger } from '@garrick0/c3-shared';
+
+export interface ConcentricLayoutConfig {
+  metric?: string;                       // Node metadata key to rank by, or 'degree' for edges in the view (default 'dependentCount')
+  levelWidth?: number;                   // Metric range covered by one ring (default: a quarter of the full range)
+  ringSpacing?: number;                  // Minimum distance between rings (default 100)
+  nodeSpacing?: number;                  // Minimum gap between nodes on a ring (default 20)
+  marginx?: number;                      // Horizontal margin
+  marginy?: number;                      // Vertical margin
+}
+
+export class ConcentricLayoutEngine implements GraphLayoutEngine {
+  private rings = new RingPlacement();
+  private finisher = new LayoutFinisher();
+
+  constructor(
+    private config: ConcentricLayoutConfig = {},
+    private logger: Logger
+  ) {}
+
+  getName(): string {
+    return 'concentric';
+  }
+
+  /**
+   * Nodes whose metric lies within levelWidth of the maximum form the inner ring,
+   * the next band the ring around it, and so on; empty bands are skipped.
+   * Missing or non-numeric metric values count as 0.
+   */
+  async layout(graphView: GraphView): Promise<GraphView> {
+    const config = {
+      metric: this.config.metric ?? 'dependentCount',
+      levelWidth: this.config.levelWidth,
+      ringSpacing: this.config.ringSpacing ?? 100,
+      nodeSpacing: this.config.nodeSpacing ?? 20,
+      marginx: this.config.marginx ?? 20,
+      marginy: this.config.marginy ?? 20
+    };
+
+    this.logger.info('Applying concentric layout', {
+      nodes: graphView.getNodeCount(),
+      edges: graphView.getEdgeCount(),
+      config
+    });
+
+    if (graphView.getNodeCount() === 0) return graphView;
+
+    const values = new Map(graphView.nodes.map(n => [n.id, this.getMetric(graphView, n, config.metric)]));
+    const max = Math.max(...values.values());
+    const min = Math.min(...values.values());
+    const levelWidth = config.levelWidth && config.levelWidth > 0 ? config.levelWidth : (max - min) / 4;
+
+    const bands = new Map<number, GraphViewNode[]>();
+    for (const node of graphView.nodes) {
+      const band = levelWidth > 0 ? Math.floor((max - values.get(node.id)!) / levelWidth) : 0;
+      bands.set(band, [...(bands.get(band) ?? []), node]);
+    }
+
+    // Highest value first around each ring, then ID
+    const rings = Array.from(bands.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, nodes]) => nodes.sort((a, b) => values.get(b.id)! - values.get(a.id)! || a.id.localeCompare(b.id)));
+
+    let radius = 0;
+    rings.forEach((ring, level) => {
+      radius = level === 0
+        ? this.rings.radiusFor(ring, config.nodeSpacing)
+        : this.rings.nextRadius(rings[level - 1], radius, ring, config.nodeSpacing, config.ringSpacing);
+      this.rings.placeRing(ring, radius);
+    });
+
+    this.finisher.finish(graphView, config.marginx, config.marginy);
+
+    graphView.metadata.layout = 'concentric';
+    graphView.metadata.layoutConfig = config;
+
+    this.logger.info('Concentric layout complete', {
+      rings: rings.length,
+      boundingBox: graphView.getBoundingBox()
+    });
+
+    return graphView;
+  }
+
+  private getMetric(graphView: GraphView, node: GraphViewNode, metric: string): number {
+    if (metric === 'degree') {
+      return graphView.getConnectedEdges(node.id).length;
+    }
+    const value = node.metadata[metric];
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+  }
+}
@@ -4,7 +4,8 @@
 
 import dagre from 'dagre';
 import { GraphLayoutEngine } from '../../domain/ports/GraphLayoutEngine.js';
-import { GraphView } from '../../domain/entities/GraphView.js';
+import { GraphView, type GraphViewCluster } from '../../domain/entities/GraphView.js';
+import { LayoutFinisher } from './LayoutFinisher.js';
 import { Logger } from '@garrick0/c3-shared';
 
 export interface DagreLayoutConfig {
@@ -14,9 +15,17 @@ export interface DagreLayoutConfig {
   marginx?: number;                      // Horizontal margin
   marginy?: number;                      // Vertical margin
   align?: 'UL' | 'UR' | 'DL' | 'DR';    // Alignment of nodes
+  compound?: boolean;                    // Nest nodes inside their clusters (default: when the view has clusters)
 }
 
+// Rough text metrics used to reserve space for edge labels
+const LABEL_CHAR_WIDTH = 7;
+const LABEL_PADDING = 8;
+const LABEL_HEIGHT = 16;
+
 export class DagreLayoutEngine implements GraphLayoutEngine {
+  private finisher = new LayoutFinisher();
+
   constructor(
     private config: DagreLayoutConfig = {},
     private logger: Logger
@@ -33,8 +42,9 @@ export class DagreLayoutEngine implements GraphLayoutEngine {
       config: this.config
     });
 
-    // Create Dagre graph
-    const g = new dagre.graphlib.Graph();
+    // Create Dagre graph (compound when nodes are laid out inside clusters)
+    const compound = (this.config.compound ?? true) && graphView.clusters.length > 0;
+    const g = new dagre.graphlib.Graph({ compound });
     
     // Set graph configuration
     g.setGraph({
@@ -58,9 +68,31 @@ export class DagreLayoutEngine implements GraphLayoutEngine {
       });
     }
 
-    // Add edges to Dagre graph
+    // Add clusters that contain something, and nest nodes and clusters inside them
+    const clusters = compound ? this.getNonEmptyClusters(graphView) : [];
+    const clusterIds = new Set(clusters.map(c => c.id));
+    for (const cluster of clusters) {
+      g.setNode(cluster.id, { label: cluster.label });
+    }
+    for (const cluster of clusters) {
+      if (cluster.parentId && clusterIds.has(cluster.parentId)) {
+        g.setParent(cluster.id, cluster.parentId);
+      }
+    }
+    for (const node of graphView.nodes) {
+      if (node.parentId && clusterIds.has(node.parentId)) {
+        g.setParent(node.id, node.parentId);
+      }
+    }
+
+    // Add edges to Dagre graph; labelled edges reserve room for their label
     for (const edge of graphView.edges) {
-      g.setEdge(edge.from, edge.to);
+      g.setEdge(edge.from, edge.to, edge.label ? {
+        label: edge.label,
+        width: edge.label.length * LABEL_CHAR_WIDTH + LABEL_PADDING,
+        height: LABEL_HEIGHT,
+        labelpos: 'c'
+      } : {});
     }
 
     // Run layout algorithm
@@ -75,6 +107,29 @@ export class DagreLayoutEngine implements GraphLayoutEngine {
       }
     }
 
+    // Keep the routes Dagre computed, so edges bend around nodes instead of crossing them
+    for (const edge of graphView.edges) {
+      const dagreEdge = g.edge(edge.from, edge.to);
+      if (dagreEdge) {
+        edge.points = dagreEdge.points?.map((p: { x: number; y: number }) => ({ x: p.x, y: p.y }));
+        edge.labelX = edge.label ? dagreEdge.x : undefined;
+        edge.labelY = edge.label ? dagreEdge.y : undefined;
+      }
+    }
+
+    // Write cluster bounds back to the view; clusters left out of the layout
+    // (empty, or all of them when not compound) lose bounds from an earlier one
+    this.finisher.clearClusters(graphView);
+    for (const cluster of clusters) {
+      const dagreNode = g.node(cluster.id);
+      if (dagreNode) {
+        cluster.x = dagreNode.x;
+        cluster.y = dagreNode.y;
+        cluster.width = dagreNode.width;
+        cluster.height = dagreNode.height;
+      }
+    }
+
     // Update metadata
     graphView.metadata.layout = 'dagre';
     graphView.metadata.layoutConfig = this.config;
@@ -86,5 +141,17 @@ export class DagreLayoutEngine implements GraphLayoutEngine {
 
     return graphView;
   }
-}
 
+  /**
+   * Clusters holding at least one node, directly or through nested clusters
+   */
+  private getNonEmptyClusters(graphView: GraphView): GraphViewCluster[] {
+    const nonEmpty = new Set<string>();
+    for (const node of graphView.nodes) {
+      for (let id = node.parentId; id && !nonEmpty.has(id); id = graphView.getCluster(id)?.parentId) {
+        nonEmpty.add(id);
+      }
+    }
+    return graphView.clusters.filter(c => nonEmpty.has(c.id));
+  }
+}
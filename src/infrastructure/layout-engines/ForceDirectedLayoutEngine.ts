@@ -0,0 +1,237 @@
+/**
+ * ForceDirectedLayoutEngine - Fruchterman-Reingold layout for dense or cyclic graphs
+ */
+
+import { GraphLayoutEngine } from '../../domain/ports/GraphLayoutEngine.js';
+import { GraphView, type GraphViewNode } from '../../domain/entities/GraphView.js';
+import { LayoutFinisher } from './LayoutFinisher.js';
+import { Logger } from '@garrick0/c3-shared';
+
+export interface ForceDirectedLayoutConfig {
+  seed?: number;                         // Seed for the initial placement; same seed, same layout (default 1)
+  iterations?: number;                   // Simulation steps (default 300)
+  idealEdgeLength?: number;              // Preferred gap between connected nodes (default 150)
+  gravity?: number;                      // Pull towards the centre, keeps components together (default 1)
+  nodeSpacing?: number;                  // Minimum gap between node boxes (default 20)
+  marginx?: number;                      // Horizontal margin
+  marginy?: number;                      // Vertical margin
+}
+
+interface Body {
+  node: GraphViewNode;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;                        // half the box diagonal
+}
+
+interface Spring {
+  source: Body;
+  target: Body;
+  strength: number;
+}
+
+const MIN_DISTANCE = 0.01;
+const MAX_OVERLAP_PASSES = 50;
+
+export class ForceDirectedLayoutEngine implements GraphLayoutEngine {
+  private finisher = new LayoutFinisher();
+
+  constructor(
+    private config: ForceDirectedLayoutConfig = {},
+    private logger: Logger
+  ) {}
+
+  getName(): string {
+    return 'force';
+  }
+
+  async layout(graphView: GraphView): Promise<GraphView> {
+    const config = {
+      seed: this.config.seed ?? 1,
+      iterations: this.config.iterations ?? 300,
+      idealEdgeLength: this.config.idealEdgeLength ?? 150,
+      gravity: this.config.gravity ?? 1,
+      nodeSpacing: this.config.nodeSpacing ?? 20,
+      marginx: this.config.marginx ?? 20,
+      marginy: this.config.marginy ?? 20
+    };
+
+    this.logger.info('Applying force-directed layout', {
+      nodes: graphView.getNodeCount(),
+      edges: graphView.getEdgeCount(),
+      config
+    });
+
+    // Visit nodes in ID order so the result does not depend on input order
+    const random = this.createRandom(config.seed);
+    const spread = config.idealEdgeLength * Math.sqrt(graphView.getNodeCount());
+    const bodies: Body[] = [...graphView.nodes]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(node => {
+        const width = node.width || 100;
+        const height = node.height || 50;
+        return {
+          node,
+          x: (random() - 0.5) * spread,
+          y: (random() - 0.5) * spread,
+          width,
+          height,
+          radius: Math.hypot(width, height) / 2
+        };
+      });
+
+    const springs = this.createSprings(graphView, bodies);
+    this.simulate(bodies, springs, config);
+    this.removeOverlaps(bodies, config.nodeSpacing);
+
+    for (const body of bodies) {
+      body.node.x = body.x;
+      body.node.y = body.y;
+    }
+    this.finisher.finish(graphView, config.marginx, config.marginy);
+
+    graphView.metadata.layout = 'force';
+    graphView.metadata.layoutConfig = config;
+
+    this.logger.info('Force-directed layout complete', {
+      boundingBox: graphView.getBoundingBox()
+    });
+
+    return graphView;
+  }
+
+  /**
+   * One spring per connected node pair; heavier edges pull harder
+   */
+  private createSprings(graphView: GraphView, bodies: Body[]): Spring[] {
+    const byId = new Map(bodies.map(b => [b.node.id, b]));
+    const springs = new Map<string, Spring>();
+
+    for (const edge of graphView.edges) {
+      const source = byId.get(edge.from);
+      const target = byId.get(edge.to);
+      if (!source || !target || source === target) continue;
+
+      const key = [edge.from, edge.to].sort().join('\u0000');
+      const spring = springs.get(key) ?? { source, target, strength: 0 };
+      spring.strength += Math.log2(1 + Math.max(edge.weight ?? 1, 0));
+      springs.set(key, spring);
+    }
+
+    return Array.from(springs.values());
+  }
+
+  /**
+   * Fruchterman-Reingold: all bodies repel (measured between their edges rather
+   * than centres, so large nodes keep their distance), springs attract, and a
+   * linearly cooling temperature caps how far a body may move per step
+   */
+  private simulate(bodies: Body[], springs: Spring[], config: Required<ForceDirectedLayoutConfig>): void {
+    const k = config.idealEdgeLength;
+    const initialTemperature = k * Math.sqrt(bodies.length) / 2;
+    const index = new Map(bodies.map((b, i) => [b, i]));
+
+    for (let iteration = 0; iteration < config.iterations; iteration++) {
+      const dx = new Float64Array(bodies.length);
+      const dy = new Float64Array(bodies.length);
+
+      for (let i = 0; i < bodies.length; i++) {
+        for (let j = i + 1; j < bodies.length; j++) {
+          const [ux, uy, distance] = this.direction(bodies[i], bodies[j]);
+          const gap = Math.max(distance - bodies[i].radius - bodies[j].radius, MIN_DISTANCE);
+          const force = (k * k) / gap;
+          dx[i] += ux * force;
+          dy[i] += uy * force;
+          dx[j] -= ux * force;
+          dy[j] -= uy * force;
+        }
+      }
+
+      for (const spring of springs) {
+        const i = index.get(spring.source)!;
+        const j = index.get(spring.target)!;
+        const [ux, uy, distance] = this.direction(spring.source, spring.target);
+        const force = spring.strength * (distance * distance) / k;
+        dx[i] -= ux * force;
+        dy[i] -= uy * force;
+        dx[j] += ux * force;
+        dy[j] += uy * force;
+      }
+
+      const temperature = initialTemperature * (1 - iteration / config.iterations);
+      bodies.forEach((body, i) => {
+        dx[i] -= config.gravity * body.x;
+        dy[i] -= config.gravity * body.y;
+
+        const length = Math.hypot(dx[i], dy[i]);
+        if (length > 0) {
+          const step = Math.min(length, temperature);
+          body.x += (dx[i] / length) * step;
+          body.y += (dy[i] / length) * step;
+        }
+      });
+    }
+  }
+
+  /**
+   * Push apart node boxes that still overlap, along the axis needing the smaller move
+   */
+  private removeOverlaps(bodies: Body[], spacing: number): void {
+    for (let pass = 0; pass < MAX_OVERLAP_PASSES; pass++) {
+      let moved = false;
+
+      for (let i = 0; i < bodies.length; i++) {
+        for (let j = i + 1; j < bodies.length; j++) {
+          const a = bodies[i];
+          const b = bodies[j];
+          const overlapX = (a.width + b.width) / 2 + spacing - Math.abs(a.x - b.x);
+          const overlapY = (a.height + b.height) / 2 + spacing - Math.abs(a.y - b.y);
+          if (overlapX <= 0 || overlapY <= 0) continue;
+
+          moved = true;
+          if (overlapX < overlapY) {
+            const shift = (overlapX / 2) * (a.x <= b.x ? 1 : -1);
+            a.x -= shift;
+            b.x += shift;
+          } else {
+            const shift = (overlapY / 2) * (a.y <= b.y ? 1 : -1);
+            a.y -= shift;
+            b.y += shift;
+          }
+        }
+      }
+
+      if (!moved) return;
+    }
+  }
+
+  /**
+   * Unit vector from b to a, and the distance between their centres
+   */
+  private direction(a: Body, b: Body): [number, number, number] {
+    const x = a.x - b.x;
+    const y = a.y - b.y;
+    const distance = Math.hypot(x, y);
+    if (distance < MIN_DISTANCE) {
+      // Coincident centres: separate along a fixed diagonal
+      return [Math.SQRT1_2, Math.SQRT1_2, MIN_DISTANCE];
+    }
+    return [x / distance, y / distance, distance];
+  }
+
+  /**
+   * Mulberry32 pseudo-random generator, returning numbers in [0, 1)
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
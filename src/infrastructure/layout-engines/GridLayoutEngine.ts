@@ -0,0 +1,72 @@
+/**
+ * GridLayoutEngine - Places nodes in rows and columns, for views without structure to show
+ */
+
+import { GraphLayoutEngine } from '../../domain/ports/GraphLayoutEngine.js';
+import { GraphView } from '../../domain/entities/GraphView.js';
+import { LayoutFinisher } from './LayoutFinisher.js';
+import { Logger } from '@garrick0/c3-shared';
+
+export interface GridLayoutConfig {
+  columns?: number;                      // Nodes per row (default: enough for a roughly square grid)
+  nodeSpacing?: number;                  // Gap between cells (default 50)
+  marginx?: number;                      // Horizontal margin
+  marginy?: number;                      // Vertical margin
+}
+
+export class GridLayoutEngine implements GraphLayoutEngine {
+  private finisher = new LayoutFinisher();
+
+  constructor(
+    private config: GridLayoutConfig = {},
+    private logger: Logger
+  ) {}
+
+  getName(): string {
+    return 'grid';
+  }
+
+  /**
+   * Nodes fill rows left to right in ID order; every cell is sized for the largest node
+   */
+  async layout(graphView: GraphView): Promise<GraphView> {
+    const nodeCount = graphView.getNodeCount();
+    const config = {
+      columns: this.config.columns ?? Math.max(1, Math.ceil(Math.sqrt(nodeCount))),
+      nodeSpacing: this.config.nodeSpacing ?? 50,
+      marginx: this.config.marginx ?? 20,
+      marginy: this.config.marginy ?? 20
+    };
+
+    this.logger.info('Applying grid layout', {
+      nodes: nodeCount,
+      edges: graphView.getEdgeCount(),
+      config
+    });
+
+    const cellWidth = Math.max(0, ...graphView.nodes.map(n => n.width || 100));
+    const cellHeight = Math.max(0, ...graphView.nodes.map(n => n.height || 50));
+
+    [...graphView.nodes]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .forEach((node, i) => {
+        const column = i % config.columns;
+        const row = Math.floor(i / config.columns);
+        node.x = config.marginx + column * (cellWidth + config.nodeSpacing) + cellWidth / 2;
+        node.y = config.marginy + row * (cellHeight + config.nodeSpacing) + cellHeight / 2;
+      });
+
+    // Cells already start at the margins, so only the routing and cluster bounds need resetting
+    this.finisher.clearRoutes(graphView);
+    this.finisher.clearClusters(graphView);
+
+    graphView.metadata.layout = 'grid';
+    graphView.metadata.layoutConfig = config;
+
+    this.logger.info('Grid layout complete', {
+      boundingBox: graphView.getBoundingBox()
+    });
+
+    return graphView;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * LayoutEngineRegistry - Creates layout engines by name, validating their configuration
+ */
+
+import { GraphLayoutEngine } from '../../domain/ports/GraphLayoutEngine.js';
+import { GraphView } from '../../domain/entities/GraphView.js';
+import { LayoutSelector, type LayoutSelectionOptions, type LayoutStyle } from '../../domain/services/LayoutSelector.js';
+import { DagreLayoutEngine, type DagreLayoutConfig } from './DagreLayoutEngine.js';
+import { ForceDirectedLayoutEngine, type ForceDirectedLayoutConfig } from './ForceDirectedLayoutEngine.js';
+import { CircularLayoutEngine, type CircularLayoutConfig } from './CircularLayoutEngine.js';
+import { RadialLayoutEngine, type RadialLayoutConfig } from './RadialLayoutEngine.js';
+import { ConcentricLayoutEngine, type ConcentricLayoutConfig } from './ConcentricLayoutEngine.js';
+import { GridLayoutEngine, type GridLayoutConfig } from './GridLayoutEngine.js';
+import { Logger } from '@garrick0/c3-shared';
+
+/**
+ * Configuration type of each built-in engine, by name
+ */
+export interface LayoutEngineConfigs {
+  dagre: DagreLayoutConfig;
+  force: ForceDirectedLayoutConfig;
+  circular: CircularLayoutConfig;
+  radial: RadialLayoutConfig;
+  concentric: ConcentricLayoutConfig;
+  grid: GridLayoutConfig;
+}
+
+export type LayoutEngineName = keyof LayoutEngineConfigs;
+
+/**
+ * Accepted values of one configuration option
+ */
+export type LayoutOptionSpec =
+  | { type: 'number'; min?: number; integer?: boolean }
+  | { type: 'string' }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] };
+
+export type LayoutConfigSchema = Record<string, LayoutOptionSpec>;
+
+export type LayoutEngineFactory<C = unknown> = (config: C, logger: Logger) => GraphLayoutEngine;
+
+export interface AutoLayoutConfig extends LayoutSelectionOptions {
+  engines?: Partial<LayoutEngineConfigs>;  // Configuration for whichever engine is picked
+}
+
+interface Registration {
+  factory: LayoutEngineFactory;          // takes configuration that passed the schema
+  schema?: LayoutConfigSchema;
+}
+
+const AUTO = 'auto';
+
+// Engine used for each style picked by LayoutSelector
+const AUTO_ENGINES: Record<LayoutStyle, LayoutEngineName> = {
+  layered: 'dagre',
+  force: 'force',
+  grid: 'grid'
+};
+
+const margins: LayoutConfigSchema = {
+  marginx: { type: 'number', min: 0 },
+  marginy: { type: 'number', min: 0 }
+};
+
+const BUILT_IN_SCHEMAS: Record<LayoutEngineName, LayoutConfigSchema> = {
+  dagre: {
+    rankdir: { type: 'enum', values: ['TB', 'BT', 'LR', 'RL'] },
+    nodesep: { type: 'number', min: 0 },
+    ranksep: { type: 'number', min: 0 },
+    align: { type: 'enum', values: ['UL', 'UR', 'DL', 'DR'] },
+    compound: { type: 'boolean' },
+    ...margins
+  },
+  force: {
+    seed: { type: 'number', integer: true },
+    iterations: { type: 'number', min: 1, integer: true },
+    idealEdgeLength: { type: 'number', min: 1 },
+    gravity: { type: 'number', min: 0 },
+    nodeSpacing: { type: 'number', min: 0 },
+    ...margins
+  },
+  circular: {
+    order: { type: 'enum', values: ['community', 'scc', 'input'] },
+    radius: { type: 'number', min: 0 },
+    nodeSpacing: { type: 'number', min: 0 },
+    ...margins
+  },
+  radial: {
+    focus: { type: 'string' },
+    direction: { type: 'enum', values: ['both', 'dependencies', 'dependents'] },
+    ringSpacing: { type: 'number', min: 0 },
+    nodeSpacing: { type: 'number', min: 0 },
+    ...margins
+  },
+  concentric: {
+    metric: { type: 'string' },
+    levelWidth: { type: 'number', min: 0 },
+    ringSpacing: { type: 'number', min: 0 },
+    nodeSpacing: { type: 'number', min: 0 },
+    ...margins
+  },
+  grid: {
+    columns: { type: 'number', min: 1, integer: true },
+    nodeSpacing: { type: 'number', min: 0 },
+    ...margins
+  }
+};
+
+export class LayoutEngineRegistry {
+  private engines = new Map<string, Registration>();
+  private selector = new LayoutSelector();
+
+  constructor(private logger: Logger) {
+    this.register<DagreLayoutConfig>('dagre', (config, log) => new DagreLayoutEngine(config, log),
+      BUILT_IN_SCHEMAS.dagre);
+    this.register<ForceDirectedLayoutConfig>('force', (config, log) => new ForceDirectedLayoutEngine(config, log),
+      BUILT_IN_SCHEMAS.force);
+    this.register<CircularLayoutConfig>('circular', (config, log) => new CircularLayoutEngine(config, log),
+      BUILT_IN_SCHEMAS.circular);
+    this.register<RadialLayoutConfig>('radial', (config, log) => new RadialLayoutEngine(config, log),
+      BUILT_IN_SCHEMAS.radial);
+    this.register<ConcentricLayoutConfig>('concentric', (config, log) => new ConcentricLayoutEngine(config, log),
+      BUILT_IN_SCHEMAS.concentric);
+    this.register<GridLayoutConfig>('grid', (config, log) => new GridLayoutEngine(config, log),
+      BUILT_IN_SCHEMAS.grid);
+  }
+
+  /**
+   * Add an engine, or replace the one registered under the same name
+   * Without a schema, any configuration is passed through unchecked.
+   */
+  register<C>(name: string, factory: LayoutEngineFactory<C>, schema?: LayoutConfigSchema): void {
+    if (name === AUTO) {
+      throw new Error(`'${AUTO}' is reserved for automatic layout selection`);
+    }
+    // Configuration reaches the factory after the schema check, and is taken as a C from there
+    this.engines.set(name, { factory: (config, logger) => factory(config as C, logger), schema });
+  }
+
+  getNames(): string[] {
+    return Array.from(this.engines.keys());
+  }
+
+  has(name: string): boolean {
+    return this.engines.has(name);
+  }
+
+  /**
+   * Create an engine after validating its configuration
+   */
+  create<N extends LayoutEngineName>(name: N, config?: LayoutEngineConfigs[N]): GraphLayoutEngine;
+  create(name: string, config?: object): GraphLayoutEngine;
+  create(name: string, config: object = {}): GraphLayoutEngine {
+    const registration = this.getRegistration(name);
+    this.validate(name, config);
+    return registration.factory(config, this.logger);
+  }
+
+  /**
+   * Check a configuration against the engine's schema
+   * Unknown options and values of the wrong type or out of range are rejected.
+   */
+  validate(name: string, config: unknown): void {
+    const { schema } = this.getRegistration(name);
+    const fail = (message: string) => new Error(`Layout '${name}' config: ${message}`);
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      throw fail('must be an object');
+    }
+    if (!schema) return;
+
+    for (const [key, value] of Object.entries(config)) {
+      const spec = schema[key];
+      if (!spec) {
+        const known = Object.keys(schema);
+        throw fail(`unknown option "${key}"${known.length > 0 ? ` (expected one of ${known.join(', ')})` : ''}`);
+      }
+      if (value === undefined) continue;
+
+      switch (spec.type) {
+        case 'number': {
+          const isNumber = typeof value === 'number' && Number.isFinite(value);
+          if (!isNumber || (spec.integer && !Number.isInteger(value))) {
+            throw fail(`"${key}" must be ${spec.integer ? 'an integer' : 'a number'}`);
+          }
+          if (spec.min !== undefined && (value as number) < spec.min) {
+            throw fail(`"${key}" must be at least ${spec.min}`);
+          }
+          break;
+        }
+        case 'enum':
+          if (!spec.values.includes(value as string)) {
+            throw fail(`"${key}" must be one of ${spec.values.join(', ')}`);
+          }
+          break;
+        default:
+          if (typeof value !== spec.type) {
+            throw fail(`"${key}" must be a ${spec.type}`);
+          }
+      }
+    }
+  }
+
+  /**
+   * Lay out a view with the named engine, or with the engine suited to its
+   * shape when the name is 'auto' (see LayoutSelector). The chosen engine and
+   * the reasons for choosing it are recorded as metadata.layoutSelection.
+   */
+  async layout(graphView: GraphView, name?: typeof AUTO, config?: AutoLayoutConfig): Promise<GraphView>;
+  async layout<N extends LayoutEngineName>(graphView: GraphView, name: N, config?: LayoutEngineConfigs[N]): Promise<GraphView>;
+  async layout(graphView: GraphView, name: string, config?: object): Promise<GraphView>;
+  async layout(graphView: GraphView, name: string = AUTO, config: object = {}): Promise<GraphView> {
+    let engineName = name;
+    let engineConfig: object = config;
+    let reasons = [`'${name}' was requested`];
+
+    if (name === AUTO) {
+      const { engines = {}, ...selectionOptions } = config as AutoLayoutConfig;
+      // Check every engine's configuration, not just the one picked for this view
+      for (const [candidate, candidateConfig] of Object.entries(engines)) {
+        this.validate(candidate, candidateConfig);
+      }
+
+      const selection = this.selector.select(graphView, selectionOptions);
+      engineName = AUTO_ENGINES[selection.style];
+      engineConfig = engines[engineName as LayoutEngineName] ?? {};
+      reasons = selection.reasons;
+
+      this.logger.info('Selected layout engine', { engine: engineName, reasons, traits: selection.traits });
+    }
+
+    const engine = this.create(engineName, engineConfig);
+    await engine.layout(graphView);
+
+    graphView.metadata.layoutSelection = { requested: name, engine: engine.getName(), reasons };
+
+    return graphView;
+  }
+
+  private getRegistration(name: string): Registration {
+    const registration = this.engines.get(name);
+    if (!registration) {
+      throw new Error(`Unknown layout engine '${name}' (available: ${this.getNames().join(', ')})`);
+    }
+    return registration;
+  }
+}
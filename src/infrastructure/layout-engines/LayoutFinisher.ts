@@ -0,0 +1,56 @@
+/**
+ * LayoutFinisher - Clears what a layout engine does not produce, so no earlier layout shows through
+ */
+
+import { GraphView } from '../../domain/entities/GraphView.js';
+
+export class LayoutFinisher {
+  /**
+   * Last step of the engines that draw edges straight and ignore clusters:
+   * shift into positive coordinates and drop edge routes and cluster bounds
+   */
+  finish(graphView: GraphView, marginx: number, marginy: number): void {
+    this.shiftToMargins(graphView, marginx, marginy);
+    this.clearRoutes(graphView);
+    this.clearClusters(graphView);
+  }
+
+  /**
+   * Move nodes so the top-left node box sits at the margins (x/y are node
+   * centres, as with Dagre)
+   */
+  shiftToMargins(graphView: GraphView, marginx: number, marginy: number): void {
+    if (graphView.nodes.length === 0) return;
+
+    const minX = Math.min(...graphView.nodes.map(n => n.x! - (n.width || 100) / 2));
+    const minY = Math.min(...graphView.nodes.map(n => n.y! - (n.height || 50) / 2));
+
+    for (const node of graphView.nodes) {
+      node.x = node.x! - minX + marginx;
+      node.y = node.y! - minY + marginy;
+    }
+  }
+
+  /**
+   * Drop edge routes and label positions left by an earlier layout
+   */
+  clearRoutes(graphView: GraphView): void {
+    for (const edge of graphView.edges) {
+      edge.points = undefined;
+      edge.labelX = undefined;
+      edge.labelY = undefined;
+    }
+  }
+
+  /**
+   * Drop cluster bounds left by an earlier compound layout
+   */
+  clearClusters(graphView: GraphView): void {
+    for (const cluster of graphView.clusters) {
+      cluster.x = undefined;
+      cluster.y = undefined;
+      cluster.width = undefined;
+      cluster.height = undefined;
+    }
+  }
+}
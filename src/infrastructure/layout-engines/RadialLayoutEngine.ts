@@ -0,0 +1,158 @@
+/**
+ * RadialLayoutEngine - Puts a focus node in the centre and its neighbourhood on rings around it
+ */
+
+import { GraphLayoutEngine } from '../../domain/ports/GraphLayoutEngine.js';
+import { GraphView, type GraphViewNode } from '../../domain/entities/GraphView.js';
+import { RingPlacement } from './RingPlacement.js';
+import { LayoutFinisher } from './LayoutFinisher.js';
+import { Logger } from '@garrick0/c3-shared';
+
+export interface RadialLayoutConfig {
+  focus?: string;                        // Node in the centre (default: the node with the most edges)
+  direction?: 'both' | 'dependencies' | 'dependents';  // Edges followed outwards from the focus (default 'both')
+  ringSpacing?: number;                  // Minimum distance between rings (default 150)
+  nodeSpacing?: number;                  // Minimum gap between nodes on a ring (default 20)
+  marginx?: number;                      // Horizontal margin
+  marginy?: number;                      // Vertical margin
+}
+
+export class RadialLayoutEngine implements GraphLayoutEngine {
+  private rings = new RingPlacement();
+  private finisher = new LayoutFinisher();
+
+  constructor(
+    private config: RadialLayoutConfig = {},
+    private logger: Logger
+  ) {}
+
+  getName(): string {
+    return 'radial';
+  }
+
+  /**
+   * Ring n holds the nodes n edges away from the focus; nodes the focus cannot
+   * reach go on one extra outer ring. Each ring is ordered by the angle of the
+   * node that reached it and turned to line up with those nodes, so branches
+   * fan out without crossing.
+   */
+  async layout(graphView: GraphView): Promise<GraphView> {
+    if (graphView.getNodeCount() === 0) return graphView;
+
+    const focus = this.config.focus ?? this.findBusiestNode(graphView);
+    if (!graphView.getNode(focus)) {
+      throw new Error(`Focus node '${focus}' not found in graph view`);
+    }
+
+    const config = {
+      focus,
+      direction: this.config.direction ?? 'both',
+      ringSpacing: this.config.ringSpacing ?? 150,
+      nodeSpacing: this.config.nodeSpacing ?? 20,
+      marginx: this.config.marginx ?? 20,
+      marginy: this.config.marginy ?? 20
+    };
+
+    this.logger.info('Applying radial layout', {
+      nodes: graphView.getNodeCount(),
+      edges: graphView.getEdgeCount(),
+      config
+    });
+
+    const { rings, reachedFrom } = this.findRings(graphView, focus, config.direction);
+
+    let previous: GraphViewNode[] = [];
+    let radius = 0;
+    rings.forEach((ring, level) => {
+      // Order by the angle of the node one ring in; unreached nodes keep ID order
+      const angleOf = (node: GraphViewNode) => {
+        const parent = reachedFrom.get(node.id);
+        return parent ? this.rings.angleOf(parent) : Infinity;
+      };
+      ring.sort((a, b) => angleOf(a) - angleOf(b) || a.id.localeCompare(b.id));
+
+      radius = level === 0
+        ? this.rings.radiusFor(ring, config.nodeSpacing)
+        : this.rings.nextRadius(previous, radius, ring, config.nodeSpacing, config.ringSpacing);
+      this.rings.placeRing(ring, radius, this.alignRotation(ring, angleOf));
+      previous = ring;
+    });
+
+    this.finisher.finish(graphView, config.marginx, config.marginy);
+
+    graphView.metadata.layout = 'radial';
+    graphView.metadata.layoutConfig = config;
+
+    this.logger.info('Radial layout complete', {
+      rings: rings.length,
+      boundingBox: graphView.getBoundingBox()
+    });
+
+    return graphView;
+  }
+
+  /**
+   * Rotation that brings evenly spaced ring nodes closest, on average, to the
+   * angles of the nodes that reached them
+   */
+  private alignRotation(ring: GraphViewNode[], angleOf: (node: GraphViewNode) => number): number {
+    let sin = 0;
+    let cos = 0;
+    ring.forEach((node, i) => {
+      const target = angleOf(node);
+      if (!Number.isFinite(target)) return;
+      const offset = target - (2 * Math.PI * i) / ring.length;
+      sin += Math.sin(offset);
+      cos += Math.cos(offset);
+    });
+    return Math.hypot(sin, cos) < 1e-9 ? 0 : Math.atan2(sin, cos);
+  }
+
+  /**
+   * Breadth-first search from the focus, visiting neighbours in ID order
+   */
+  private findRings(
+    graphView: GraphView,
+    focus: string,
+    direction: NonNullable<RadialLayoutConfig['direction']>
+  ): { rings: GraphViewNode[][]; reachedFrom: Map<string, GraphViewNode> } {
+    const neighbours = new Map(graphView.nodes.map(n => [n.id, new Set<string>()]));
+    for (const edge of graphView.edges) {
+      if (!neighbours.has(edge.from) || !neighbours.has(edge.to)) continue;
+      if (direction !== 'dependents') neighbours.get(edge.from)!.add(edge.to);
+      if (direction !== 'dependencies') neighbours.get(edge.to)!.add(edge.from);
+    }
+
+    const reachedFrom = new Map<string, GraphViewNode>();
+    const visited = new Set([focus]);
+    const rings: GraphViewNode[][] = [[graphView.getNode(focus)!]];
+
+    while (true) {
+      const next: GraphViewNode[] = [];
+      for (const node of rings[rings.length - 1]) {
+        for (const id of Array.from(neighbours.get(node.id)!).sort()) {
+          if (visited.has(id)) continue;
+          visited.add(id);
+          reachedFrom.set(id, node);
+          next.push(graphView.getNode(id)!);
+        }
+      }
+      if (next.length === 0) break;
+      rings.push(next);
+    }
+
+    const unreached = graphView.nodes.filter(n => !visited.has(n.id));
+    if (unreached.length > 0) rings.push(unreached);
+
+    return { rings, reachedFrom };
+  }
+
+  /**
+   * Node with the most edges, ties broken by ID
+   */
+  private findBusiestNode(graphView: GraphView): string {
+    const degree = (node: GraphViewNode) => graphView.getConnectedEdges(node.id).length;
+    return [...graphView.nodes]
+      .sort((a, b) => degree(b) - degree(a) || a.id.localeCompare(b.id))[0].id;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * RingPlacement - Geometry shared by the circular, radial and concentric layout engines
+ */
+
+import { type GraphViewNode } from '../../domain/entities/GraphView.js';
+
+export class RingPlacement {
+  /**
+   * Smallest radius at which nodes spaced evenly around a ring keep their boxes
+   * apart, and no smaller than minRadius. A single node needs no room, so a lone
+   * node on the innermost ring sits at the centre.
+   */
+  radiusFor(nodes: GraphViewNode[], nodeSpacing: number, minRadius: number = 0): number {
+    if (nodes.length < 2) return minRadius;
+
+    const size = this.maxDiagonal(nodes) + nodeSpacing;
+    return Math.max(minRadius, size / (2 * Math.sin(Math.PI / nodes.length)));
+  }
+
+  /**
+   * Radius of the next ring out, clearing the boxes on both rings
+   */
+  nextRadius(inner: GraphViewNode[], innerRadius: number, outer: GraphViewNode[], nodeSpacing: number, ringSpacing: number): number {
+    const clearance = (this.maxDiagonal(inner) + this.maxDiagonal(outer)) / 2 + nodeSpacing;
+    return this.radiusFor(outer, nodeSpacing, innerRadius + Math.max(clearance, ringSpacing));
+  }
+
+  /**
+   * Spread nodes evenly around a ring centred on the origin, clockwise from the
+   * top, or from `rotation` radians further clockwise
+   */
+  placeRing(nodes: GraphViewNode[], radius: number, rotation: number = 0): void {
+    nodes.forEach((node, i) => {
+      const angle = -Math.PI / 2 + rotation + (2 * Math.PI * i) / nodes.length;
+      node.x = radius * Math.cos(angle);
+      node.y = radius * Math.sin(angle);
+    });
+  }
+
+  /**
+   * Position of a placed node around the ring, in [0, 2π) clockwise from the top
+   */
+  angleOf(node: GraphViewNode): number {
+    const angle = Math.atan2(node.y!, node.x!) + Math.PI / 2;
+    return (angle + 2 * Math.PI) % (2 * Math.PI);
+  }
+
+  private maxDiagonal(nodes: GraphViewNode[]): number {
+    return Math.max(0, ...nodes.map(n => Math.hypot(n.width || 100, n.height || 50)));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * FileViolationBaselineRepository - Stores the violation baseline as a JSON file
+ */
+
+import { ViolationBaselineRepository } from '../../domain/ports/ViolationBaselineRepository.js';
+import { type ViolationBaseline } from '../../domain/value-objects/ViolationBaseline.js';
+import { Logger } from '@garrick0/c3-shared';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+export class FileViolationBaselineRepository implements ViolationBaselineRepository {
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {}
+
+  async load(): Promise<ViolationBaseline | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let baseline: ViolationBaseline;
+    try {
+      baseline = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse ${this.filePath}: ${(error as Error).message}`);
+    }
+
+    if (baseline?.version !== 1 || !Array.isArray(baseline.entries)) {
+      throw new Error(`Unsupported violation baseline format in ${this.filePath}`);
+    }
+
+    this.logger.info('Loaded violation baseline', { filePath: this.filePath, entries: baseline.entries.length });
+    return baseline;
+  }
+
+  async save(baseline: ViolationBaseline): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(baseline, null, 2) + '\n');
+
+    this.logger.info('Saved violation baseline', { filePath: this.filePath, entries: baseline.entries.length });
+  }
+}
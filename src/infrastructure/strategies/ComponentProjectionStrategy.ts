@@ -0,0 +1,158 @@
+/**
+ * ComponentProjectionStrategy - Strategy for creating class/module component graphs
+ */
+
+import { ProjectionStrategy } from '../../domain/ports/ProjectionStrategy.js';
+import { Projection, type ProjectionMetadata } from '../../domain/entities/Projection.js';
+import { ComponentGraph, type Component } from '../../domain/entities/ComponentGraph.js';
+import { PropertyGraph, NodeType, EdgeType, type Node } from '@garrick0/c3-parsing';
+import { ViewConfiguration } from '../../domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../domain/value-objects/ProjectionType.js';
+import { MetricsCalculator } from '../../domain/services/MetricsCalculator.js';
+import { Logger } from '@garrick0/c3-shared';
+
+export class ComponentProjectionStrategy implements ProjectionStrategy {
+  private metricsCalculator = new MetricsCalculator();
+
+  constructor(private logger: Logger) {}
+
+  async project(graph: PropertyGraph, config: ViewConfiguration): Promise<Projection> {
+    this.logger.info('Creating component projection', { graphId: graph.id });
+
+    try {
+      // Step 1: Every class and module node becomes a component
+      const componentNodes = graph.getNodes()
+        .filter(node => node.type === NodeType.CLASS || node.type === NodeType.MODULE);
+
+      // Step 2: Attribute contained members (methods, properties, ...) to their component
+      const owner = this.buildOwnership(componentNodes, graph);
+
+      // Step 3: Walk the remaining edges to find dependencies and internal connections
+      // Cohesion is the share of a component's edges, incoming and outgoing, that stay inside it.
+      const dependencies = new Map<string, Set<string>>(componentNodes.map(n => [n.id, new Set()]));
+      const dependents = new Map<string, Set<string>>(componentNodes.map(n => [n.id, new Set()]));
+      const interfaces = new Map<string, Set<string>>(componentNodes.map(n => [n.id, new Set()]));
+      const internalConnections = new Map<string, number>();
+      const totalConnections = new Map<string, number>();
+      const countConnection = (componentId: string) =>
+        totalConnections.set(componentId, (totalConnections.get(componentId) ?? 0) + 1);
+
+      for (const edge of graph.getEdges()) {
+        if (edge.type === EdgeType.CONTAINS) continue;
+
+        const from = owner.get(edge.fromNodeId);
+        const to = owner.get(edge.toNodeId);
+        if (!from && !to) continue;
+
+        if (from && (edge.type === EdgeType.IMPLEMENTS || edge.type === EdgeType.EXTENDS) && edge.fromNodeId === from) {
+          interfaces.get(from)!.add(graph.getNode(edge.toNodeId)?.name ?? edge.toNodeId);
+        }
+
+        if (from && to === from) {
+          internalConnections.set(from, (internalConnections.get(from) ?? 0) + 1);
+          countConnection(from);
+          continue;
+        }
+
+        if (from) countConnection(from);
+        if (to) countConnection(to);
+
+        if (from && to) {
+          dependencies.get(from)!.add(to);
+          dependents.get(to)!.add(from);
+        }
+      }
+
+      const complexity = this.calculateComplexity(owner, graph);
+
+      // Step 4: Create projection with metrics
+      const metadata: ProjectionMetadata = {
+        sourceGraphId: graph.id,
+        createdAt: new Date(),
+        projectionType: ProjectionType.COMPONENT,
+        configuration: config.options
+      };
+
+      const componentGraph = new ComponentGraph(`proj-component-${Date.now()}`, metadata);
+
+      for (const node of componentNodes) {
+        const efferent = Array.from(dependencies.get(node.id)!);
+        const afferent = Array.from(dependents.get(node.id)!);
+
+        const component: Component = {
+          id: node.id,
+          name: node.name,
+          type: node.type === NodeType.CLASS ? 'class' : 'module',
+          interfaces: Array.from(interfaces.get(node.id)!),
+          dependencies: efferent,
+          metrics: {
+            complexity: complexity.get(node.id) ?? 0,
+            coupling: this.metricsCalculator.calculateCoupling(efferent)
+              + this.metricsCalculator.calculateCoupling(afferent),
+            cohesion: this.metricsCalculator.calculateCohesion(
+              internalConnections.get(node.id) ?? 0,
+              totalConnections.get(node.id) ?? 0
+            )
+          }
+        };
+
+        componentGraph.addComponent(component);
+      }
+
+      this.logger.info('Component projection created successfully', {
+        components: componentNodes.length
+      });
+
+      return componentGraph;
+    } catch (error) {
+      this.logger.error('Failed to create component projection', error as Error);
+      throw error;
+    }
+  }
+
+  supports(type: ProjectionType): boolean {
+    return type === ProjectionType.COMPONENT;
+  }
+
+  /**
+   * Map each component node and its (transitively) contained members to the component ID
+   * Nested components own their own members.
+   */
+  private buildOwnership(componentNodes: Node[], graph: PropertyGraph): Map<string, string> {
+    const componentIds = new Set(componentNodes.map(n => n.id));
+    const owner = new Map<string, string>();
+
+    for (const component of componentNodes) {
+      owner.set(component.id, component.id);
+
+      const queue = [component.id];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const edge of graph.getEdgesFrom(current)) {
+          if (edge.type !== EdgeType.CONTAINS) continue;
+          if (componentIds.has(edge.toNodeId) || owner.has(edge.toNodeId)) continue;
+
+          owner.set(edge.toNodeId, component.id);
+          queue.push(edge.toNodeId);
+        }
+      }
+    }
+
+    return owner;
+  }
+
+  /**
+   * Sum member complexity per component, counting members without a complexity metric as 1
+   */
+  private calculateComplexity(owner: Map<string, string>, graph: PropertyGraph): Map<string, number> {
+    const complexity = new Map<string, number>();
+
+    for (const [memberId, componentId] of owner) {
+      if (memberId === componentId) continue;
+      const memberComplexity = graph.getNode(memberId)?.metadata?.complexity ?? 1;
+      complexity.set(componentId, (complexity.get(componentId) ?? 0) + memberComplexity);
+    }
+
+    return complexity;
+  }
+}
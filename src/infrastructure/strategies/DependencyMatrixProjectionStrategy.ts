@@ -0,0 +1,120 @@
+/**
+ * DependencyMatrixProjectionStrategy - Strategy for creating module dependency structure matrices
+ */
+
+import { ProjectionStrategy } from '../../domain/ports/ProjectionStrategy.js';
+import { Projection, type ProjectionMetadata } from '../../domain/entities/Projection.js';
+import { DependencyMatrix } from '../../domain/entities/DependencyMatrix.js';
+import { Module } from '../../domain/entities/Module.js';
+import { PropertyGraph } from '@garrick0/c3-parsing';
+import { ViewConfiguration } from '../../domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../domain/value-objects/ProjectionType.js';
+import { ImportKind } from '../../domain/value-objects/ImportKind.js';
+import { ModuleAggregator, type AggregationConfig } from '../../domain/services/ModuleAggregator.js';
+import { ModuleDependencyCalculator } from '../../domain/services/ModuleDependencyCalculator.js';
+import { ImportResolverOptionsLoader } from '../../domain/services/ImportResolverOptionsLoader.js';
+import { GraphAlgorithms } from '../../domain/services/GraphAlgorithms.js';
+import { Logger } from '@garrick0/c3-shared';
+import * as path from 'path';
+
+export class DependencyMatrixProjectionStrategy implements ProjectionStrategy {
+  private aggregator: ModuleAggregator;
+  private dependencyCalculator: ModuleDependencyCalculator;
+  private resolverOptionsLoader: ImportResolverOptionsLoader;
+  private algorithms = new GraphAlgorithms();
+
+  constructor(
+    private logger: Logger,
+    private rootPath: string
+  ) {
+    this.aggregator = new ModuleAggregator(logger);
+    this.dependencyCalculator = new ModuleDependencyCalculator(logger);
+    this.resolverOptionsLoader = new ImportResolverOptionsLoader(logger);
+  }
+
+  async project(graph: PropertyGraph, config: ViewConfiguration): Promise<Projection> {
+    this.logger.info('Creating dependency matrix projection', {
+      graphId: graph.id,
+      aggregationLevel: config.aggregationLevel
+    });
+
+    try {
+      // Step 1: Build modules and their dependencies
+      const resolverOptions = await this.resolverOptionsLoader.load(this.rootPath, config, graph);
+      const aggregationConfig: AggregationConfig = ModuleAggregator.createConfig(config);
+      aggregationConfig.workspacePackages = resolverOptions.workspacePackages;
+
+      const modules = await this.aggregator.aggregate(graph, this.rootPath, aggregationConfig);
+      this.dependencyCalculator.calculate(modules, graph, {
+        ...resolverOptions,
+        excludeImportKinds: config.getFilter<ImportKind[]>('excludeImportKinds')
+      });
+
+      // Step 2: Order modules so that each cycle forms a contiguous block
+      const blocks = this.orderBlocks(modules);
+      const ordered = blocks.flat();
+
+      const metadata: ProjectionMetadata = {
+        sourceGraphId: graph.id,
+        createdAt: new Date(),
+        projectionType: ProjectionType.DEPENDENCY_MATRIX,
+        configuration: { ...aggregationConfig, rootPath: this.rootPath }
+      };
+
+      const matrix = new DependencyMatrix(`proj-matrix-${Date.now()}`, metadata);
+
+      for (const row of ordered) {
+        for (const column of ordered) {
+          const details = row.getDependencyDetails(column.id);
+          matrix.setCell(
+            this.getLabel(row),
+            this.getLabel(column),
+            details?.importCount ?? 0,
+            details ? { filePairs: details.filePairs, symbols: details.symbols, importKinds: details.kinds } : undefined
+          );
+        }
+      }
+
+      matrix.setBlocks(blocks.map(block => block.map(m => this.getLabel(m))));
+
+      this.logger.info('Dependency matrix projection created successfully', {
+        modules: ordered.length,
+        cyclicBlocks: matrix.getCyclicBlocks().length
+      });
+
+      return matrix;
+    } catch (error) {
+      this.logger.error('Failed to create dependency matrix projection', error as Error);
+      throw error;
+    }
+  }
+
+  supports(type: ProjectionType): boolean {
+    return type === ProjectionType.DEPENDENCY_MATRIX;
+  }
+
+  /**
+   * Group modules into strongly connected blocks, providers before consumers,
+   * which keeps the matrix lower-triangular apart from the cyclic blocks
+   */
+  private orderBlocks(modules: Module[]): Module[][] {
+    const byId = new Map(modules.map(m => [m.id, m]));
+    const sorted = [...modules].sort((a, b) => a.path.localeCompare(b.path));
+
+    const adjacency = new Map<string, string[]>(
+      sorted.map(m => [m.id, m.getDependencies().sort()])
+    );
+
+    return this.algorithms.stronglyConnectedComponents(adjacency)
+      .map(component => component
+        .map(id => byId.get(id)!)
+        .sort((a, b) => a.path.localeCompare(b.path)));
+  }
+
+  /**
+   * Matrix label for a module: its path relative to the projection root
+   */
+  private getLabel(module: Module): string {
+    return path.relative(this.rootPath, module.path) || '.';
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * LayerProjectionStrategy - Strategy for creating architectural layer projections
+ */
+
+import { ProjectionStrategy } from '../../domain/ports/ProjectionStrategy.js';
+import { Projection, type ProjectionMetadata } from '../../domain/entities/Projection.js';
+import { LayerProjection, type Layer, type LayerDefinition } from '../../domain/entities/LayerProjection.js';
+import { PropertyGraph, NodeType, EdgeType } from '@garrick0/c3-parsing';
+import { ViewConfiguration } from '../../domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../domain/value-objects/ProjectionType.js';
+import { GlobPattern } from '../../domain/value-objects/GlobPattern.js';
+import { ImportResolver } from '../../domain/services/ImportResolver.js';
+import { ImportMetadataReader } from '../../domain/services/ImportMetadataReader.js';
+import { ImportKind } from '../../domain/value-objects/ImportKind.js';
+import { ImportResolverOptionsLoader } from '../../domain/services/ImportResolverOptionsLoader.js';
+import { Logger } from '@garrick0/c3-shared';
+import * as path from 'path';
+
+export class LayerProjectionStrategy implements ProjectionStrategy {
+  private resolverOptionsLoader: ImportResolverOptionsLoader;
+  private metadataReader = new ImportMetadataReader();
+
+  constructor(
+    private logger: Logger,
+    private rootPath: string
+  ) {
+    this.resolverOptionsLoader = new ImportResolverOptionsLoader(logger);
+  }
+
+  async project(graph: PropertyGraph, config: ViewConfiguration): Promise<Projection> {
+    const definitions = config.getOption<LayerDefinition[]>('layers', []) ?? [];
+
+    this.logger.info('Creating layer projection', {
+      graphId: graph.id,
+      layers: definitions.map(d => d.name)
+    });
+
+    try {
+      this.validateDefinitions(definitions);
+
+      const patterns = new Map(definitions.map(d => [d.name, d.paths.map(p => GlobPattern.create(p))]));
+      const allowed = this.buildAllowedTargets(definitions);
+
+      // Step 1: Assign code files to the first layer whose globs match
+      const fileToLayer = new Map<string, string>();
+      const fileCounts = new Map<string, number>(definitions.map(d => [d.name, 0]));
+
+      const codeFiles = graph.getNodes()
+        .filter(node => node.type === NodeType.FILE)
+        .filter(node => node.isFromDomain('code'));
+
+      for (const file of codeFiles) {
+        const relativePath = path.relative(this.rootPath, file.metadata.filePath);
+        const layer = definitions.find(d => patterns.get(d.name)!.some(p => p.matches(relativePath)));
+        if (layer) {
+          fileToLayer.set(file.id, layer.name);
+          fileCounts.set(layer.name, fileCounts.get(layer.name)! + 1);
+        }
+      }
+
+      this.logger.info(`Assigned ${fileToLayer.size} of ${codeFiles.length} files to layers`);
+
+      // Step 2: Check every cross-layer import against the allowed targets
+      // (filters.excludeImportKinds, e.g. ['type-only'], restricts the check to runtime imports)
+      const excludedKinds = new Set(config.getFilter<ImportKind[]>('excludeImportKinds', []));
+      const resolver = new ImportResolver(graph, await this.resolverOptionsLoader.load(this.rootPath, config, graph));
+      const layers = new Map<string, Layer>(definitions.map(d => [d.name, {
+        name: d.name,
+        path: d.paths.join(', '),
+        nodeCount: fileCounts.get(d.name)!,
+        dependencies: [],
+        violations: []
+      }]));
+
+      const importEdges = graph.getEdges()
+        .filter(edge => edge.type === EdgeType.IMPORTS)
+        .filter(edge => !excludedKinds.has(this.metadataReader.getKind(edge)));
+
+      for (const edge of importEdges) {
+        const fromLayer = fileToLayer.get(edge.fromNodeId);
+        if (!fromLayer) continue;
+
+        const targetNodeId = resolver.resolve(edge);
+        const toLayer = targetNodeId ? fileToLayer.get(targetNodeId) : undefined;
+        if (!toLayer || toLayer === fromLayer) continue;
+
+        const layer = layers.get(fromLayer)!;
+        if (!layer.dependencies.includes(toLayer)) {
+          layer.dependencies.push(toLayer);
+        }
+
+        if (!allowed.get(fromLayer)!.has(toLayer)) {
+          layer.violations.push({
+            from: resolver.getFilePath(edge.fromNodeId)!,
+            to: resolver.getFilePath(targetNodeId!)!,
+            reason: `Layer '${fromLayer}' must not depend on layer '${toLayer}'`,
+            fromLayer,
+            toLayer,
+            edgeId: edge.id
+          });
+        }
+      }
+
+      // Step 3: Create projection with metadata
+      const metadata: ProjectionMetadata = {
+        sourceGraphId: graph.id,
+        createdAt: new Date(),
+        projectionType: ProjectionType.LAYER,
+        configuration: { rootPath: this.rootPath, layers: definitions }
+      };
+
+      const projection = new LayerProjection(`proj-layer-${Date.now()}`, metadata);
+      layers.forEach(layer => projection.addLayer(layer));
+
+      this.logger.info('Layer projection created successfully', {
+        layers: layers.size,
+        violations: projection.getAllViolations().length
+      });
+
+      return projection;
+    } catch (error) {
+      this.logger.error('Failed to create layer projection', error as Error);
+      throw error;
+    }
+  }
+
+  supports(type: ProjectionType): boolean {
+    return type === ProjectionType.LAYER;
+  }
+
+  /**
+   * Map each layer to the set of layers it may import from
+   */
+  private buildAllowedTargets(definitions: LayerDefinition[]): Map<string, Set<string>> {
+    const allowed = new Map<string, Set<string>>();
+
+    definitions.forEach((definition, index) => {
+      const targets = definition.canDependOn
+        ?? definitions.slice(index + 1).map(d => d.name);
+      allowed.set(definition.name, new Set(targets));
+    });
+
+    return allowed;
+  }
+
+  /**
+   * Reject empty, duplicate or dangling layer definitions
+   */
+  private validateDefinitions(definitions: LayerDefinition[]): void {
+    if (definitions.length === 0) {
+      throw new Error('Layer projection requires at least one layer in the "layers" option');
+    }
+
+    const names = new Set<string>();
+    for (const definition of definitions) {
+      if (names.has(definition.name)) {
+        throw new Error(`Duplicate layer definition: ${definition.name}`);
+      }
+      names.add(definition.name);
+    }
+
+    for (const definition of definitions) {
+      for (const target of definition.canDependOn ?? []) {
+        if (!names.has(target)) {
+          throw new Error(`Layer '${definition.name}' references unknown layer '${target}'`);
+        }
+      }
+    }
+  }
+}
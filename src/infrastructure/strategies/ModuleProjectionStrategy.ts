@@ -8,14 +8,21 @@ import { ModuleProjection, type ModuleProjectionMetadata } from '../../domain/en
 import { PropertyGraph } from '@garrick0/c3-parsing';
 import { ViewConfiguration } from '../../domain/value-objects/ViewConfiguration.js';
 import { ProjectionType } from '../../domain/value-objects/ProjectionType.js';
+import { ImportKind } from '../../domain/value-objects/ImportKind.js';
 import { ModuleAggregator, type AggregationConfig } from '../../domain/services/ModuleAggregator.js';
 import { ModuleDependencyCalculator } from '../../domain/services/ModuleDependencyCalculator.js';
+import { MetricsCalculator } from '../../domain/services/MetricsCalculator.js';
+import { CycleAnalyzer } from '../../domain/services/CycleAnalyzer.js';
+import { ImportResolverOptionsLoader } from '../../domain/services/ImportResolverOptionsLoader.js';
 import { AggregationLevel } from '../../domain/value-objects/AggregationLevel.js';
 import { Logger } from '@garrick0/c3-shared';
 
 export class ModuleProjectionStrategy implements ProjectionStrategy {
   private aggregator: ModuleAggregator;
   private dependencyCalculator: ModuleDependencyCalculator;
+  private metricsCalculator = new MetricsCalculator();
+  private cycleAnalyzer = new CycleAnalyzer();
+  private resolverOptionsLoader: ImportResolverOptionsLoader;
 
   constructor(
     private logger: Logger,
@@ -23,6 +30,7 @@ export class ModuleProjectionStrategy implements ProjectionStrategy {
   ) {
     this.aggregator = new ModuleAggregator(logger);
     this.dependencyCalculator = new ModuleDependencyCalculator(logger);
+    this.resolverOptionsLoader = new ImportResolverOptionsLoader(logger);
   }
 
   async project(graph: PropertyGraph, config: ViewConfiguration): Promise<Projection> {
@@ -35,21 +43,25 @@ export class ModuleProjectionStrategy implements ProjectionStrategy {
 
     try {
       // Step 1: Aggregate files into modules
-      const includeTests = config.getOption<boolean>('includeTests', true);
-      const excludePatterns = config.getOption<string[]>('excludePatterns', ['node_modules', 'dist', 'coverage', 'build']);
-
-      const aggregationConfig: AggregationConfig = {
-        level: aggregationLevel,
-        includeTests,
-        excludePatterns
-      };
+      const resolverOptions = await this.resolverOptionsLoader.load(this.rootPath, config, graph);
+      const aggregationConfig: AggregationConfig = ModuleAggregator.createConfig(config);
+      aggregationConfig.workspacePackages = resolverOptions.workspacePackages;
 
       const modules = await this.aggregator.aggregate(graph, this.rootPath, aggregationConfig);
 
-      // Step 2: Calculate module dependencies
-      this.dependencyCalculator.calculate(modules, graph);
+      // Step 2: Calculate module dependencies (plus opt-in modules for npm packages and built-ins)
+      const { externalModules, diagnostics } = this.dependencyCalculator.calculate(modules, graph, {
+        ...resolverOptions,
+        excludeImportKinds: config.getFilter<ImportKind[]>('excludeImportKinds'),
+        includeExternals: config.getOption<boolean>('includeExternals', false),
+        includeBuiltins: config.getOption<boolean>('includeBuiltins', false)
+      });
+      modules.push(...externalModules);
 
-      // Step 3: Create projection with metadata
+      // Step 3: Instability, abstractness and distance from the main sequence
+      this.metricsCalculator.calculatePackageMetrics(modules, graph);
+
+      // Step 4: Create projection with metadata
       const totalDeps = modules.reduce((sum, m) => sum + m.getDependencyCount(), 0);
       const totalFiles = modules.reduce((sum, m) => sum + m.files.length, 0);
 
@@ -62,7 +74,8 @@ export class ModuleProjectionStrategy implements ProjectionStrategy {
         aggregationLevel,
         generatedAt: new Date(),
         totalFiles,
-        totalDependencies: totalDeps
+        totalDependencies: totalDeps,
+        diagnostics
       };
 
       const projection = new ModuleProjection(
@@ -71,10 +84,15 @@ export class ModuleProjectionStrategy implements ProjectionStrategy {
         modules
       );
 
+      // Step 5: Record dependency cycles and main-sequence zones
+      const cycles = this.cycleAnalyzer.record(projection);
+      this.metricsCalculator.recordMainSequenceZones(projection);
+
       this.logger.info('Module projection created successfully', {
         modules: modules.length,
         dependencies: totalDeps,
-        cycles: projection.getCycles().length
+        unresolvedImports: diagnostics.unresolved.length,
+        cycles: cycles.cycles.length
       });
 
       return projection;
@@ -0,0 +1,229 @@
+/**
+ * TreeProjectionStrategy - Strategy for creating directory hierarchy projections
+ */
+
+import { ProjectionStrategy } from '../../domain/ports/ProjectionStrategy.js';
+import { Projection, type ProjectionMetadata } from '../../domain/entities/Projection.js';
+import { TreeProjection, type TreeNode } from '../../domain/entities/TreeProjection.js';
+import { PropertyGraph, NodeType, EdgeType, type Node } from '@garrick0/c3-parsing';
+import { ViewConfiguration } from '../../domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../domain/value-objects/ProjectionType.js';
+import { ImportResolver, type ImportResolverOptions } from '../../domain/services/ImportResolver.js';
+import { ImportResolverOptionsLoader } from '../../domain/services/ImportResolverOptionsLoader.js';
+import { MetricsCalculator } from '../../domain/services/MetricsCalculator.js';
+import { Logger } from '@garrick0/c3-shared';
+import * as path from 'path';
+
+export class TreeProjectionStrategy implements ProjectionStrategy {
+  private resolverOptionsLoader: ImportResolverOptionsLoader;
+  private metricsCalculator = new MetricsCalculator();
+
+  constructor(
+    private logger: Logger,
+    private rootPath: string
+  ) {
+    this.resolverOptionsLoader = new ImportResolverOptionsLoader(logger);
+  }
+
+  async project(graph: PropertyGraph, config: ViewConfiguration): Promise<Projection> {
+    this.logger.info('Creating tree projection', { graphId: graph.id, rootPath: this.rootPath });
+
+    try {
+      const excludePatterns = config.getOption<string[]>('excludePatterns', ['node_modules', 'dist', 'coverage', 'build'])!;
+
+      // Step 1: Collect code files below the root
+      const files = graph.getNodes()
+        .filter(node => node.type === NodeType.FILE)
+        .filter(node => node.isFromDomain('code'))
+        .filter(node => !excludePatterns.some(p => node.metadata.filePath.includes(p)))
+        .filter(node => !this.relativePath(node.metadata.filePath).startsWith('..'));
+
+      // Step 2: Build directory -> file -> module hierarchy
+      const root = this.createDirectory('.');
+      const directories = new Map<string, TreeNode>([['.', root]]);
+      const modulesByFile = this.groupModulesByFile(graph);
+
+      for (const file of files) {
+        const relativePath = this.relativePath(file.metadata.filePath);
+        const parent = this.ensureDirectory(path.dirname(relativePath), directories);
+
+        parent.children.push({
+          id: file.id,
+          name: path.basename(relativePath),
+          type: 'file',
+          children: (modulesByFile.get(file.metadata.filePath) ?? []).map(module => ({
+            id: module.id,
+            name: module.name,
+            type: 'module' as const,
+            children: [],
+            metadata: { startLine: module.metadata.startLine, endLine: module.metadata.endLine }
+          })),
+          metadata: {
+            path: relativePath,
+            lineCount: this.metricsCalculator.calculateLineCount([file]),
+            fileCount: 1,
+            outgoingImports: 0
+          }
+        });
+      }
+
+      // Step 3: Roll line counts, file counts and cross-directory imports up the tree
+      const resolverOptions = await this.resolverOptionsLoader.load(this.rootPath, config, graph);
+      this.countOutgoingImports(graph, files, directories, resolverOptions);
+      this.rollUp(root);
+      this.sortChildren(root);
+
+      const metadata: ProjectionMetadata = {
+        sourceGraphId: graph.id,
+        createdAt: new Date(),
+        projectionType: ProjectionType.TREE,
+        configuration: { rootPath: this.rootPath, excludePatterns }
+      };
+
+      const projection = new TreeProjection(`proj-tree-${Date.now()}`, metadata);
+      projection.setRoot(root);
+
+      this.logger.info('Tree projection created successfully', {
+        files: files.length,
+        directories: directories.size
+      });
+
+      return projection;
+    } catch (error) {
+      this.logger.error('Failed to create tree projection', error as Error);
+      throw error;
+    }
+  }
+
+  supports(type: ProjectionType): boolean {
+    return type === ProjectionType.TREE;
+  }
+
+  /**
+   * Count imports leaving each file, and each directory containing the importing file,
+   * up to (but excluding) the closest directory that also contains the imported file
+   */
+  private countOutgoingImports(
+    graph: PropertyGraph,
+    files: Node[],
+    directories: Map<string, TreeNode>,
+    resolverOptions: ImportResolverOptions
+  ): void {
+    const resolver = new ImportResolver(graph, resolverOptions);
+    const fileNodes = new Map(files.map(f => [f.id, f]));
+    const treeFiles = new Map<string, TreeNode>();
+    for (const directory of directories.values()) {
+      for (const child of directory.children) {
+        if (child.type === 'file') treeFiles.set(child.id, child);
+      }
+    }
+
+    const importEdges = graph.getEdges()
+      .filter(edge => edge.type === EdgeType.IMPORTS);
+
+    for (const edge of importEdges) {
+      const source = fileNodes.get(edge.fromNodeId);
+      const targetId = resolver.resolve(edge);
+      const target = targetId ? fileNodes.get(targetId) : undefined;
+      if (!source || !target || source.id === target.id) continue;
+
+      const sourceDir = path.dirname(this.relativePath(source.metadata.filePath));
+      const targetDir = path.dirname(this.relativePath(target.metadata.filePath));
+      if (sourceDir === targetDir) continue;
+
+      treeFiles.get(source.id)!.metadata!.outgoingImports++;
+
+      let current = sourceDir;
+      while (!this.contains(current, targetDir)) {
+        directories.get(current)!.metadata!.outgoingImports++;
+        current = path.dirname(current);
+      }
+    }
+  }
+
+  /**
+   * Sum line and file counts of children into each directory node
+   */
+  private rollUp(node: TreeNode): void {
+    if (node.type !== 'directory') return;
+
+    let lineCount = 0;
+    let fileCount = 0;
+    for (const child of node.children) {
+      this.rollUp(child);
+      lineCount += child.metadata?.lineCount ?? 0;
+      fileCount += child.metadata?.fileCount ?? 0;
+    }
+
+    node.metadata!.lineCount = lineCount;
+    node.metadata!.fileCount = fileCount;
+  }
+
+  /**
+   * Directories first, then files, each alphabetically
+   */
+  private sortChildren(node: TreeNode): void {
+    node.children.sort((a, b) => {
+      if (a.type !== b.type) return a.type === 'directory' ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+    node.children.forEach(child => this.sortChildren(child));
+  }
+
+  /**
+   * Get or create the directory node for a relative path, creating missing ancestors
+   */
+  private ensureDirectory(relativeDir: string, directories: Map<string, TreeNode>): TreeNode {
+    const existing = directories.get(relativeDir);
+    if (existing) return existing;
+
+    const parent = this.ensureDirectory(path.dirname(relativeDir), directories);
+    const directory = this.createDirectory(relativeDir);
+    parent.children.push(directory);
+    directories.set(relativeDir, directory);
+    return directory;
+  }
+
+  private createDirectory(relativeDir: string): TreeNode {
+    return {
+      id: `dir:${relativeDir}`,
+      name: relativeDir === '.' ? path.basename(this.rootPath) : path.basename(relativeDir),
+      type: 'directory',
+      children: [],
+      metadata: {
+        path: relativeDir,
+        lineCount: 0,
+        fileCount: 0,
+        outgoingImports: 0
+      }
+    };
+  }
+
+  /**
+   * Group MODULE nodes (namespaces, declared modules) by the file that declares them
+   */
+  private groupModulesByFile(graph: PropertyGraph): Map<string, Node[]> {
+    const grouped = new Map<string, Node[]>();
+
+    for (const node of graph.getNodes()) {
+      if (node.type !== NodeType.MODULE || !node.metadata?.filePath) continue;
+      if (!grouped.has(node.metadata.filePath)) {
+        grouped.set(node.metadata.filePath, []);
+      }
+      grouped.get(node.metadata.filePath)!.push(node);
+    }
+
+    return grouped;
+  }
+
+  /**
+   * Check if relative directory `ancestor` contains relative directory `dir`
+   */
+  private contains(ancestor: string, dir: string): boolean {
+    return ancestor === '.' || dir === ancestor || dir.startsWith(ancestor + path.sep);
+  }
+
+  private relativePath(filePath: string): string {
+    return path.relative(this.rootPath, filePath);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for ArchitectureRuleEvaluator and ArchitectureRulesLoader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { ArchitectureRuleEvaluator } from '../../src/domain/services/ArchitectureRuleEvaluator.js';
+import { ArchitectureRulesLoader } from '../../src/domain/services/ArchitectureRulesLoader.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../../src/domain/entities/ModuleProjection.js';
+import { Module } from '../../src/domain/entities/Module.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+const metadata: ModuleProjectionMetadata = {
+  sourceGraphId: 'test-graph',
+  createdAt: new Date(),
+  projectionType: ProjectionType.MODULE,
+  configuration: {},
+  rootPath: '/repo',
+  aggregationLevel: AggregationLevel.DIRECTORY,
+  generatedAt: new Date(),
+  totalFiles: 0,
+  totalDependencies: 0
+};
+
+const createModule = (id: string, modulePath: string): Module =>
+  new Module(id, id, `/repo/${modulePath}`, [`${id}1`], new Set(), new Set(), {
+    fileCount: 1,
+    totalLines: 10,
+    dependencyCount: 0,
+    dependentCount: 0
+  });
+
+/**
+ * domain/{entities,services}, application, infrastructure, plus lodash
+ * - services -> application and infrastructure (both wrong)
+ * - application -> infrastructure (wrong)
+ * - entities <-> services (cycle)
+ */
+const build = (): ModuleProjection => {
+  const modules = new Map([
+    ['entities', createModule('entities', 'src/domain/entities')],
+    ['services', createModule('services', 'src/domain/services')],
+    ['application', createModule('application', 'src/application')],
+    ['infrastructure', createModule('infrastructure', 'src/infrastructure')]
+  ]);
+  const lodash = new Module('external:lodash', 'lodash', 'lodash', [], new Set(), new Set(), {
+    fileCount: 0,
+    totalLines: 0,
+    dependencyCount: 0,
+    dependentCount: 0
+  });
+  lodash.markExternal({ packageName: 'lodash', builtin: false });
+  modules.set(lodash.id, lodash);
+
+  const links: Array<[string, string]> = [
+    ['services', 'application'],
+    ['services', 'infrastructure'],
+    ['services', 'entities'],
+    ['entities', 'services'],
+    ['application', 'services'],
+    ['application', 'infrastructure'],
+    ['application', 'external:lodash'],
+    ['infrastructure', 'entities']
+  ];
+  for (const [from, to] of links) {
+    modules.get(from)!.recordImport(to, { from: `/repo/${from}.ts`, to: `/repo/${to}.ts`, symbols: ['X'] });
+    modules.get(to)!.addDependent(from);
+  }
+
+  return new ModuleProjection('proj-1', metadata, Array.from(modules.values()));
+};
+
+describe('ArchitectureRuleEvaluator', () => {
+  const evaluator = new ArchitectureRuleEvaluator();
+
+  it('should report forbidden dependencies with the offending imports', () => {
+    const violations = evaluator.evaluate(build(), {
+      rules: [{ name: 'no-infra', type: 'forbidden', from: ['src/domain/**', 'src/application'], to: ['src/infrastructure/**'] }]
+    });
+
+    expect(violations.map(v => [v.from, v.to])).toEqual([
+      ['application', 'infrastructure'],
+      ['services', 'infrastructure']
+    ]);
+    expect(violations[0]).toMatchObject({ rule: 'no-infra', type: 'forbidden', severity: 'error' });
+    expect(violations[0].imports).toEqual([
+      { from: '/repo/application.ts', to: '/repo/infrastructure.ts', importCount: 1, symbols: ['X'], kinds: [] }
+    ]);
+  });
+
+  it('should allow only the listed targets besides the source scope itself', () => {
+    const violations = evaluator.evaluate(build(), {
+      rules: [{ name: 'app-uses-domain', type: 'allowed-only', from: ['src/application'], to: ['src/domain/**', 'lodash'], severity: 'warning' }]
+    });
+
+    expect(violations.map(v => [v.from, v.to, v.severity])).toEqual([['application', 'infrastructure', 'warning']]);
+  });
+
+  it('should report dependencies leaving an independent scope', () => {
+    const violations = evaluator.evaluate(build(), {
+      rules: [{ name: 'pure-domain', type: 'independent', scope: ['src/domain/**'] }]
+    });
+
+    expect(violations.map(v => [v.from, v.to])).toEqual([
+      ['services', 'application'],
+      ['services', 'infrastructure']
+    ]);
+  });
+
+  it('should report cycles within a scope only', () => {
+    const violations = evaluator.evaluate(build(), {
+      rules: [
+        { name: 'acyclic-domain', type: 'no-cycles', scope: ['src/domain/**'] },
+        { name: 'acyclic-infrastructure', type: 'no-cycles', scope: ['src/infrastructure'] }
+      ]
+    });
+
+    expect(violations.map(v => [v.rule, v.from, v.to])).toEqual([
+      ['acyclic-domain', 'entities', 'services'],
+      ['acyclic-domain', 'services', 'entities']
+    ]);
+    expect(violations[0].cycle).toEqual(['entities', 'services']);
+  });
+});
+
+describe('ArchitectureRulesLoader', () => {
+  const loader = new ArchitectureRulesLoader(new Logger('test', LogLevel.ERROR));
+
+  it('should parse YAML and accept single patterns', () => {
+    const ruleSet = loader.parse([
+      'rules:',
+      '  - name: pure-domain',
+      '    type: independent',
+      '    scope: src/domain/**',
+      '  - name: no-infra',
+      '    type: forbidden',
+      '    from: src/application',
+      '    to: [src/infrastructure/**]',
+      '    severity: warning'
+    ].join('\n'));
+
+    expect(ruleSet.rules).toEqual([
+      { name: 'pure-domain', type: 'independent', scope: ['src/domain/**'], description: undefined, severity: undefined },
+      { name: 'no-infra', type: 'forbidden', from: ['src/application'], to: ['src/infrastructure/**'], description: undefined, severity: 'warning' }
+    ]);
+  });
+
+  it('should parse JSON', () => {
+    const ruleSet = loader.parse(JSON.stringify({ rules: [{ name: 'acyclic', type: 'no-cycles', scope: ['**'] }] }));
+
+    expect(ruleSet.rules[0]).toMatchObject({ name: 'acyclic', type: 'no-cycles', scope: ['**'] });
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => loader.parse('rules: {}')).toThrow('must contain a "rules" list');
+    expect(() => loader.parse('rules: [forbidden]')).toThrow('Architecture rule #1 in rules: must be a mapping');
+    expect(() => loader.parse('rules: [{ name: a, type: banned }]')).toThrow(`Architecture rule 'a' in rules: "type" must be one of`);
+    expect(() => loader.parse('rules: [{ name: a, type: forbidden, from: src }]')).toThrow('"to" must be a glob');
+    expect(() => loader.parse('rules: [{ name: a, type: no-cycles, scope: x }, { name: a, type: no-cycles, scope: y }]'))
+      .toThrow('duplicate rule name');
+    expect(() => loader.parse('rules: [{ name: a, type: no-cycles, scope: x, description: [x] }]'))
+      .toThrow('"description" must be a string');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for CircularLayoutEngine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CircularLayoutEngine } from '../../src/infrastructure/layout-engines/CircularLayoutEngine.js';
+import { GraphView, type GraphViewNode, type GraphViewEdge } from '../../src/domain/entities/GraphView.js';
+import { createLogger } from '@garrick0/c3-shared';
+
+const createView = (ids: string[], links: Array<[string, string]>): GraphView => {
+  const nodes: GraphViewNode[] = ids.map(id => ({ id, label: id, type: 'module', width: 120, height: 60, metadata: {} }));
+  const edges: GraphViewEdge[] = links.map(([from, to]) => ({ id: `${from}-${to}`, from, to, metadata: {} }));
+  return new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() });
+};
+
+/**
+ * Node IDs in clockwise order from the top of the circle
+ */
+const clockwise = (view: GraphView): string[] => {
+  const cx = view.nodes.reduce((sum, n) => sum + n.x!, 0) / view.nodes.length;
+  const cy = view.nodes.reduce((sum, n) => sum + n.y!, 0) / view.nodes.length;
+  const angle = (n: GraphViewNode) => (Math.atan2(n.y! - cy, n.x! - cx) + Math.PI / 2 + 2 * Math.PI) % (2 * Math.PI);
+  return [...view.nodes].sort((a, b) => angle(a) - angle(b)).map(n => n.id);
+};
+
+describe('CircularLayoutEngine', () => {
+  const logger = createLogger('test');
+  // Interleaved IDs: two triangles joined by a single edge
+  const ids = ['a1', 'b1', 'a2', 'b2', 'a3', 'b3'];
+  const links: Array<[string, string]> = [['a1', 'a2'], ['a2', 'a3'], ['a3', 'a1'], ['b1', 'b2'], ['b2', 'b3'], ['b3', 'b1'], ['a1', 'b1']];
+
+  it('should place nodes on one circle without overlaps', async () => {
+    const view = await new CircularLayoutEngine({ order: 'input' }, logger).layout(createView(ids, links));
+
+    expect(clockwise(view)).toEqual(ids);
+    for (const a of view.nodes) {
+      for (const b of view.nodes) {
+        if (a === b) continue;
+        const separated = Math.abs(a.x! - b.x!) >= a.width! || Math.abs(a.y! - b.y!) >= a.height!;
+        expect(separated).toBe(true);
+      }
+    }
+    expect(view.metadata.layout).toBe('circular');
+  });
+
+  it('should keep communities next to each other', async () => {
+    const view = await new CircularLayoutEngine({}, logger).layout(createView(ids, links));
+
+    expect(clockwise(view)).toEqual(['a1', 'a2', 'a3', 'b1', 'b2', 'b3']);
+  });
+
+  it('should put dependencies before their dependents in SCC order', async () => {
+    const view = await new CircularLayoutEngine({ order: 'scc' }, logger).layout(createView(ids, links));
+
+    expect(clockwise(view)).toEqual(['b1', 'b2', 'b3', 'a1', 'a2', 'a3']);
+  });
+});
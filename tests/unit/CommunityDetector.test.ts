@@ -0,0 +1,119 @@
+/**
+ * Tests for CommunityDetector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PropertyGraph, NodeType, EdgeType, Node, Edge } from '@garrick0/c3-parsing';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { CommunityDetector } from '../../src/domain/services/CommunityDetector.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../../src/domain/entities/ModuleProjection.js';
+import { Module } from '../../src/domain/entities/Module.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+const metadata: ModuleProjectionMetadata = {
+  sourceGraphId: 'test-graph',
+  createdAt: new Date(),
+  projectionType: ProjectionType.MODULE,
+  configuration: {},
+  rootPath: '/src',
+  aggregationLevel: AggregationLevel.DIRECTORY,
+  generatedAt: new Date(),
+  totalFiles: 0,
+  totalDependencies: 0
+};
+
+const createModule = (id: string, files: string[]): Module =>
+  new Module(id, id, `/src/${id}`, files, new Set(), new Set(), {
+    fileCount: files.length,
+    totalLines: 0,
+    dependencyCount: 0,
+    dependentCount: 0
+  });
+
+/**
+ * ui/{u1,u2,u3} and core/{c1,c2,c3} each import each other in a ring.
+ * ui/u4 sits in ui but only talks to core; ui/u5 imports nothing.
+ */
+const build = () => {
+  const files: Record<string, string> = {
+    u1: '/src/ui/u1.ts', u2: '/src/ui/u2.ts', u3: '/src/ui/u3.ts', u4: '/src/ui/u4.ts', u5: '/src/ui/u5.ts',
+    c1: '/src/core/c1.ts', c2: '/src/core/c2.ts', c3: '/src/core/c3.ts'
+  };
+  const links: Array<[string, string]> = [
+    ['u1', 'u2'], ['u2', 'u3'], ['u3', 'u1'],
+    ['c1', 'c2'], ['c2', 'c3'], ['c3', 'c1'],
+    ['u4', 'c1'], ['u4', 'c2'], ['c3', 'u4'],
+    ['u1', 'c1']
+  ];
+
+  const graph = new PropertyGraph('test-graph');
+  for (const [id, filePath] of Object.entries(files)) {
+    graph.addNode(new Node(id, NodeType.FILE, new Set(['File']), { filePath, startLine: 1, endLine: 10 }));
+  }
+  links.forEach(([from, to], i) => graph.addEdge(new Edge(`edge-${i}`, EdgeType.IMPORTS, from, to)));
+
+  const projection = new ModuleProjection('proj-1', metadata, [
+    createModule('ui', ['u1', 'u2', 'u3', 'u4', 'u5']),
+    createModule('core', ['c1', 'c2', 'c3'])
+  ]);
+
+  return { graph, projection };
+};
+
+describe('CommunityDetector', () => {
+  const detector = new CommunityDetector(new Logger('test', LogLevel.ERROR));
+
+  it('should propose modules that follow the imports', () => {
+    const { graph, projection } = build();
+
+    const result = detector.detect(projection, graph);
+    const proposed = result.projection.getModules();
+
+    expect(proposed.map(m => [...m.files].sort())).toEqual([
+      ['c1', 'c2', 'c3', 'u4'],
+      ['u1', 'u2', 'u3', 'u5']
+    ]);
+    expect(proposed.map(m => m.name)).toEqual(['core', 'ui']);
+    expect(proposed[1].getDependencies()).toEqual([proposed[0].id]);
+    expect(proposed.map(m => m.metrics.totalLines)).toEqual([40, 40]);
+  });
+
+  it('should report files that belong to another module', () => {
+    const { graph, projection } = build();
+
+    const result = detector.detect(projection, graph);
+
+    expect(result.misplacedFiles).toEqual([{
+      fileId: 'u4',
+      filePath: '/src/ui/u4.ts',
+      currentModule: 'ui',
+      suggestedModule: 'core',
+      community: 'community-1'
+    }]);
+  });
+
+  it('should score modularity per module for both projections', () => {
+    const { graph, projection } = build();
+
+    const result = detector.detect(projection, graph);
+
+    expect(result.modularity).toBeGreaterThan(result.currentModularity);
+    expect(result.modularity).toBeCloseTo(result.modules.reduce((sum, m) => sum + m.modularity, 0));
+    expect(result.currentModules.map(m => m.moduleId).sort()).toEqual(['core', 'ui']);
+  });
+
+  it('should cluster arbitrary nodes, ignoring links to unknown nodes', () => {
+    const link = (from: string, to: string) => ({ from, to, importCount: 1 });
+
+    const communities = detector.findCommunities(['a1', 'a2', 'a3', 'b1', 'b2', 'b3'], [
+      link('a1', 'a2'), link('a2', 'a3'), link('a3', 'a1'),
+      link('b1', 'b2'), link('b2', 'b3'), link('b3', 'b1'),
+      link('a1', 'b1'), link('a1', 'missing')
+    ]);
+
+    expect(new Set(['a1', 'a2', 'a3'].map(id => communities.get(id))).size).toBe(1);
+    expect(new Set(['b1', 'b2', 'b3'].map(id => communities.get(id))).size).toBe(1);
+    expect(communities.get('a1')).not.toBe(communities.get('b1'));
+  });
+});
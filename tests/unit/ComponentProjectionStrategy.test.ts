@@ -0,0 +1,113 @@
+/**
+ * Tests for ComponentProjectionStrategy
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PropertyGraph, Node, Edge, NodeType, EdgeType, type NodeMetadata, type SourceMetadata } from '@garrick0/c3-parsing';
+import { createLogger } from '@garrick0/c3-shared';
+import { ComponentProjectionStrategy } from '../../src/infrastructure/strategies/ComponentProjectionStrategy.js';
+import { ComponentGraph } from '../../src/domain/entities/ComponentGraph.js';
+import { ViewConfiguration } from '../../src/domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+describe('ComponentProjectionStrategy', () => {
+  const logger = createLogger('test');
+  const sourceMetadata: SourceMetadata = {
+    domain: 'code',
+    extension: 'typescript',
+    version: '1.0.0'
+  };
+
+  const config = ViewConfiguration.create({
+    projectionType: ProjectionType.COMPONENT,
+    aggregationLevel: AggregationLevel.FILE
+  });
+
+  let strategy: ComponentProjectionStrategy;
+  let graph: PropertyGraph;
+
+  const addNode = (id: string, type: NodeType, name: string, metadata: Record<string, any> = {}) => {
+    graph.addNode(new Node(
+      id,
+      type,
+      name,
+      { filePath: '/test/src/orders.ts', startLine: 1, endLine: 10, ...metadata } as NodeMetadata,
+      new Set(['CodeElement']),
+      sourceMetadata
+    ));
+  };
+
+  const addEdge = (type: EdgeType, from: string, to: string) => {
+    graph.addEdge(new Edge(`${type}-${from}-${to}`, type, from, to, {}, sourceMetadata));
+  };
+
+  beforeEach(() => {
+    strategy = new ComponentProjectionStrategy(logger);
+    graph = new PropertyGraph('test-graph', {
+      codebaseId: 'test',
+      parsedAt: new Date(),
+      language: 'typescript',
+      version: '1.0.0'
+    });
+
+    addNode('service', NodeType.CLASS, 'OrderService');
+    addNode('service-place', NodeType.METHOD, 'place', { complexity: 3 });
+    addNode('service-validate', NodeType.METHOD, 'validate');
+    addNode('repository', NodeType.CLASS, 'OrderRepository');
+    addNode('repository-save', NodeType.METHOD, 'save');
+    addNode('utils', NodeType.MODULE, 'utils');
+    addNode('utils-log', NodeType.FUNCTION, 'log');
+    addNode('contract', NodeType.INTERFACE, 'Service');
+    addNode('main', NodeType.FUNCTION, 'main');
+
+    addEdge(EdgeType.CONTAINS, 'service', 'service-place');
+    addEdge(EdgeType.CONTAINS, 'service', 'service-validate');
+    addEdge(EdgeType.CONTAINS, 'repository', 'repository-save');
+    addEdge(EdgeType.CONTAINS, 'utils', 'utils-log');
+
+    addEdge(EdgeType.IMPLEMENTS, 'service', 'contract');
+    addEdge(EdgeType.CALLS, 'service-place', 'service-validate');
+    addEdge(EdgeType.CALLS, 'service-place', 'repository-save');
+    addEdge(EdgeType.CALLS, 'repository-save', 'utils-log');
+    addEdge(EdgeType.CALLS, 'main', 'service-validate');
+  });
+
+  it('should build a component per class and module node', async () => {
+    const projection = await strategy.project(graph, config) as ComponentGraph;
+
+    expect(projection).toBeInstanceOf(ComponentGraph);
+    expect(projection.getComponents().map(c => [c.id, c.type])).toEqual([
+      ['service', 'class'],
+      ['repository', 'class'],
+      ['utils', 'module']
+    ]);
+    expect(projection.getComponent('service')).toMatchObject({
+      name: 'OrderService',
+      interfaces: ['Service'],
+      dependencies: ['repository']
+    });
+    expect(projection.getComponent('repository')!.dependencies).toEqual(['utils']);
+  });
+
+  it('should sum member complexity and count coupling in both directions', async () => {
+    const projection = await strategy.project(graph, config) as ComponentGraph;
+
+    expect(projection.getComponent('service')!.metrics).toMatchObject({ complexity: 4, coupling: 1 });
+    expect(projection.getComponent('repository')!.metrics).toMatchObject({ complexity: 1, coupling: 2 });
+    expect(projection.getComponent('utils')!.metrics).toMatchObject({ complexity: 1, coupling: 1 });
+  });
+
+  it('should measure cohesion against incoming as well as outgoing edges', async () => {
+    const projection = await strategy.project(graph, config) as ComponentGraph;
+
+    // OrderService: 1 internal call out of 4 edges (internal call, implements, call out, call in from main)
+    expect(projection.getComponent('service')!.metrics.cohesion).toBe(0.25);
+    expect(projection.getComponent('repository')!.metrics.cohesion).toBe(0);
+
+    // A component only ever called into is not perfectly cohesive
+    addEdge(EdgeType.CALLS, 'utils-log', 'utils');
+    const updated = await strategy.project(graph, config) as ComponentGraph;
+    expect(updated.getComponent('utils')!.metrics.cohesion).toBe(0.5);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for ConcentricLayoutEngine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConcentricLayoutEngine } from '../../src/infrastructure/layout-engines/ConcentricLayoutEngine.js';
+import { GraphView, type GraphViewNode } from '../../src/domain/entities/GraphView.js';
+import { createLogger } from '@garrick0/c3-shared';
+
+const createView = (dependents: Record<string, number>): GraphView => {
+  const nodes: GraphViewNode[] = Object.entries(dependents).map(([id, dependentCount]) => ({
+    id, label: id, type: 'module', width: 120, height: 60, metadata: { dependentCount }
+  }));
+  return new GraphView('view-1', nodes, [], { projectionType: 'test', generatedAt: new Date() });
+};
+
+const distance = (view: GraphView, a: string, b: string): number =>
+  Math.hypot(view.getNode(a)!.x! - view.getNode(b)!.x!, view.getNode(a)!.y! - view.getNode(b)!.y!);
+
+describe('ConcentricLayoutEngine', () => {
+  const logger = createLogger('test');
+  const dependents = { shared: 10, util: 6, a: 0, b: 0, c: 0 };
+
+  it('should put the most depended-on nodes in the middle', async () => {
+    const view = await new ConcentricLayoutEngine({}, logger).layout(createView(dependents));
+
+    expect(distance(view, 'shared', 'util')).toBeGreaterThan(0);
+    expect(distance(view, 'shared', 'a')).toBeGreaterThan(distance(view, 'shared', 'util'));
+    expect(distance(view, 'shared', 'a')).toBeCloseTo(distance(view, 'shared', 'b'));
+    expect(distance(view, 'shared', 'a')).toBeCloseTo(distance(view, 'shared', 'c'));
+    expect(view.metadata.layout).toBe('concentric');
+  });
+
+  it('should share a ring between values within one level width', async () => {
+    const view = await new ConcentricLayoutEngine({ levelWidth: 20 }, logger).layout(createView(dependents));
+    const cx = view.nodes.reduce((sum, n) => sum + n.x!, 0) / view.nodes.length;
+    const cy = view.nodes.reduce((sum, n) => sum + n.y!, 0) / view.nodes.length;
+    const radii = view.nodes.map(n => Math.hypot(n.x! - cx, n.y! - cy));
+
+    for (const radius of radii) {
+      expect(radius).toBeCloseTo(radii[0]);
+    }
+  });
+});
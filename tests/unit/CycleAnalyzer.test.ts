@@ -0,0 +1,73 @@
+/**
+ * Tests for CycleAnalyzer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CycleAnalyzer } from '../../src/domain/services/CycleAnalyzer.js';
+import { Module } from '../../src/domain/entities/Module.js';
+import { ImportKind } from '../../src/domain/value-objects/ImportKind.js';
+
+const createModule = (id: string, files: string[] = [], dependencies: string[] = []): Module =>
+  new Module(id, id, `/src/${id}`, files, new Set(dependencies), new Set(), {
+    fileCount: files.length,
+    totalLines: files.length * 10,
+    dependencyCount: dependencies.length,
+    dependentCount: 0
+  });
+
+describe('CycleAnalyzer', () => {
+  describe('analyze', () => {
+    const analyzer = new CycleAnalyzer();
+
+    it('should ignore cycles that only close through type-only imports', () => {
+      const a = createModule('a', ['a1']);
+      const b = createModule('b', ['b1']);
+      a.recordImport('b', { from: '/src/a/a1.ts', to: '/src/b/b1.ts', kinds: [ImportKind.VALUE] });
+      b.recordImport('a', { from: '/src/b/b1.ts', to: '/src/a/a1.ts', kinds: [ImportKind.TYPE_ONLY] });
+
+      expect(analyzer.analyze([a, b]).cycles).toHaveLength(0);
+
+      b.recordImport('a', { from: '/src/b/b1.ts', to: '/src/a/a1.ts', kinds: [ImportKind.VALUE] });
+
+      expect(analyzer.analyze([a, b]).cycles).toHaveLength(1);
+    });
+
+    it('should report every elementary cycle of a component once, in a stable order', () => {
+      // a <-> b, b -> c -> a: two overlapping cycles in one component
+      const build = (order: string[]) => {
+        const modules = new Map(['a', 'b', 'c'].map(id => [id, createModule(id, [`${id}1`])]));
+        const link = (from: string, to: string) =>
+          modules.get(from)!.recordImport(to, { from: `/src/${from}/${from}1.ts`, to: `/src/${to}/${to}1.ts` });
+        link('a', 'b');
+        link('b', 'a');
+        link('b', 'c');
+        link('c', 'a');
+        return order.map(id => modules.get(id)!);
+      };
+
+      const analysis = analyzer.analyze(build(['a', 'b', 'c']));
+
+      expect(analysis.components).toHaveLength(1);
+      expect(analysis.components[0].modules).toEqual(['a', 'b', 'c']);
+      expect(analysis.cycles.map(c => c.modules)).toEqual([['a', 'b'], ['a', 'b', 'c']]);
+      expect(analysis.cycles[1].edges[2]).toEqual({
+        from: 'c',
+        to: 'a',
+        imports: [{ from: '/src/c/c1.ts', to: '/src/a/a1.ts', importCount: 1, symbols: [], kinds: [] }]
+      });
+
+      expect(analyzer.analyze(build(['c', 'b', 'a'])).cycles.map(c => c.modules))
+        .toEqual(analysis.cycles.map(c => c.modules));
+    });
+
+    it('should bound the number of cycles per component', () => {
+      const modules = ['a', 'b', 'c'].map(id => createModule(id, [], ['a', 'b', 'c'].filter(other => other !== id)));
+
+      const analysis = analyzer.analyze(modules, { maxCyclesPerComponent: 2 });
+
+      expect(analysis.cycles).toHaveLength(2);
+      expect(analysis.components[0].truncated).toBe(true);
+    });
+  });
+
+});
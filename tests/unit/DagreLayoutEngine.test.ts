@@ -197,6 +197,71 @@ describe('DagreLayoutEngine', () => {
       // Large separation should result in wider layout
       expect(widthLarge).toBeGreaterThan(widthSmall);
     });
+
+    it('should keep edge routes ending on node boundaries and place labels', async () => {
+      const nodes: GraphViewNode[] = [
+        { id: 'A', label: 'A', type: 'module', width: 100, height: 50, metadata: {} },
+        { id: 'B', label: 'B', type: 'module', width: 100, height: 50, metadata: {} }
+      ];
+      const edges: GraphViewEdge[] = [{ id: 'A-B', from: 'A', to: 'B', label: '3 imports', metadata: {} }];
+      const view = new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() });
+
+      const layoutedView = await engine.layout(view);
+      const edge = layoutedView.edges[0];
+      const nodeA = layoutedView.getNode('A')!;
+      const nodeB = layoutedView.getNode('B')!;
+
+      expect(edge.points!.length).toBeGreaterThanOrEqual(2);
+      expect(edge.points![0].y).toBeCloseTo(nodeA.y! + 25);
+      expect(edge.points![edge.points!.length - 1].y).toBeCloseTo(nodeB.y! - 25);
+      expect(edge.labelY).toBeGreaterThan(nodeA.y!);
+      expect(edge.labelY).toBeLessThan(nodeB.y!);
+    });
+
+    it('should lay out clusters around their member nodes', async () => {
+      const nodes: GraphViewNode[] = [
+        { id: 'A', label: 'A', type: 'module', width: 100, height: 50, parentId: 'cluster:domain', metadata: {} },
+        { id: 'B', label: 'B', type: 'module', width: 100, height: 50, parentId: 'cluster:domain', metadata: {} },
+        { id: 'C', label: 'C', type: 'module', width: 100, height: 50, metadata: {} }
+      ];
+      const edges: GraphViewEdge[] = [
+        { id: 'A-B', from: 'A', to: 'B', metadata: {} },
+        { id: 'B-C', from: 'B', to: 'C', metadata: {} }
+      ];
+      const view = new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() }, [
+        { id: 'cluster:domain', label: 'domain' }
+      ]);
+
+      const layoutedView = await engine.layout(view);
+      const cluster = layoutedView.getCluster('cluster:domain')!;
+
+      expect(cluster.width).toBeGreaterThan(0);
+      expect(cluster.height).toBeGreaterThan(0);
+      for (const id of ['A', 'B']) {
+        const node = layoutedView.getNode(id)!;
+        expect(node.x! - node.width! / 2).toBeGreaterThanOrEqual(cluster.x! - cluster.width! / 2);
+        expect(node.x! + node.width! / 2).toBeLessThanOrEqual(cluster.x! + cluster.width! / 2);
+        expect(node.y! - node.height! / 2).toBeGreaterThanOrEqual(cluster.y! - cluster.height! / 2);
+        expect(node.y! + node.height! / 2).toBeLessThanOrEqual(cluster.y! + cluster.height! / 2);
+      }
+    });
+
+    it('should clear cluster bounds when not laying out clusters', async () => {
+      const nodes: GraphViewNode[] = [
+        { id: 'A', label: 'A', type: 'module', width: 100, height: 50, parentId: 'cluster:domain', metadata: {} }
+      ];
+      const view = new GraphView('view-1', nodes, [], { projectionType: 'test', generatedAt: new Date() }, [
+        { id: 'cluster:domain', label: 'domain' },
+        { id: 'cluster:empty', label: 'empty', x: 10, y: 10, width: 50, height: 50 }
+      ]);
+
+      await engine.layout(view);
+      expect(view.getCluster('cluster:domain')!.width).toBeGreaterThan(0);
+      expect(view.getCluster('cluster:empty')!.width).toBeUndefined();
+
+      await new DagreLayoutEngine({ compound: false }, logger).layout(view);
+      expect(view.getCluster('cluster:domain')).toMatchObject({ x: undefined, y: undefined, width: undefined, height: undefined });
+    });
   });
 
   describe('getName', () => {
@@ -0,0 +1,109 @@
+/**
+ * Tests for DependencyMatrixProjectionStrategy
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PropertyGraph, Node, Edge, NodeType, EdgeType, type NodeMetadata, type SourceMetadata } from '@garrick0/c3-parsing';
+import { createLogger } from '@garrick0/c3-shared';
+import { DependencyMatrixProjectionStrategy } from '../../src/infrastructure/strategies/DependencyMatrixProjectionStrategy.js';
+import { DependencyMatrix } from '../../src/domain/entities/DependencyMatrix.js';
+import { ViewConfiguration } from '../../src/domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+import { ImportKind } from '../../src/domain/value-objects/ImportKind.js';
+
+describe('DependencyMatrixProjectionStrategy', () => {
+  const logger = createLogger('test');
+  const sourceMetadata: SourceMetadata = {
+    domain: 'code',
+    extension: 'typescript',
+    version: '1.0.0'
+  };
+
+  let strategy: DependencyMatrixProjectionStrategy;
+  let graph: PropertyGraph;
+
+  const addFile = (id: string, filePath: string) => {
+    graph.addNode(new Node(
+      id,
+      NodeType.FILE,
+      filePath.split('/').pop()!,
+      { filePath, startLine: 1, endLine: 10 } as NodeMetadata,
+      new Set(['CodeElement', 'File']),
+      sourceMetadata
+    ));
+  };
+
+  const addImport = (id: string, from: string, to: string, metadata: Record<string, any> = {}) => {
+    graph.addEdge(new Edge(id, EdgeType.IMPORTS, from, to, metadata, sourceMetadata));
+  };
+
+  const configFor = (filters?: Record<string, any>) => ViewConfiguration.create({
+    projectionType: ProjectionType.DEPENDENCY_MATRIX,
+    aggregationLevel: AggregationLevel.DIRECTORY,
+    filters
+  });
+
+  beforeEach(() => {
+    strategy = new DependencyMatrixProjectionStrategy(logger, '/test/src');
+    graph = new PropertyGraph('test-graph', {
+      codebaseId: 'test',
+      parsedAt: new Date(),
+      language: 'typescript',
+      version: '1.0.0'
+    });
+
+    addFile('file-app', '/test/src/app/Main.ts');
+    addFile('file-domain', '/test/src/domain/Entity.ts');
+    addFile('file-infra', '/test/src/infra/Repository.ts');
+    addFile('file-shared', '/test/src/shared/Util.ts');
+
+    // app -> domain -> shared, app -> infra, and domain <-> infra
+    addImport('e1', 'file-app', 'file-domain', { importedSymbols: ['Entity'] });
+    addImport('e2', 'file-app', '../domain/Entity.js', { importedSymbols: ['createEntity'] });
+    addImport('e3', 'file-app', 'file-infra', { importedSymbols: ['Repository'] });
+    addImport('e4', 'file-domain', 'file-shared', { importedSymbols: ['id'] });
+    addImport('e5', 'file-domain', 'file-infra', { importedSymbols: ['Repository'], isTypeOnly: true });
+    addImport('e6', 'file-infra', 'file-domain', { importedSymbols: ['Entity'] });
+  });
+
+  it('should fill cells with import counts between modules', async () => {
+    const matrix = await strategy.project(graph, configFor()) as DependencyMatrix;
+
+    expect(matrix).toBeInstanceOf(DependencyMatrix);
+    expect(matrix.getDimensions()).toEqual({ rows: 4, columns: 4 });
+    expect(matrix.getCell('app', 'domain')).toMatchObject({
+      value: 2,
+      metadata: { symbols: ['Entity', 'createEntity'], importKinds: [ImportKind.VALUE] }
+    });
+    expect(matrix.getCell('domain', 'app')).toEqual({ row: 'domain', column: 'app', value: 0, metadata: undefined });
+    expect(matrix.getSummary()).toMatchObject({ totalCells: 16, nonZeroCells: 5, cyclicBlocks: 1 });
+  });
+
+  it('should order providers before consumers, keeping each cycle in one block', async () => {
+    const matrix = await strategy.project(graph, configFor()) as DependencyMatrix;
+    const labels = matrix.getRowLabels();
+
+    expect(matrix.getBlocks()).toEqual([['shared'], ['domain', 'infra'], ['app']]);
+    expect(matrix.getCyclicBlocks()).toEqual([['domain', 'infra']]);
+    expect(labels).toEqual(['shared', 'domain', 'infra', 'app']);
+    expect(matrix.getColumnLabels()).toEqual(labels);
+
+    // Above the diagonal, only cells inside a cyclic block are filled
+    const blockOf = (label: string) => matrix.getBlocks().findIndex(block => block.includes(label));
+    const upper = matrix.getData().filter(cell => cell.value > 0 && labels.indexOf(cell.row) < labels.indexOf(cell.column));
+    expect(upper.map(cell => [cell.row, cell.column])).toEqual([['domain', 'infra']]);
+    expect(upper.every(cell => blockOf(cell.row) === blockOf(cell.column))).toBe(true);
+  });
+
+  it('should break cycles made of excluded import kinds', async () => {
+    const matrix = await strategy.project(
+      graph,
+      configFor({ excludeImportKinds: [ImportKind.TYPE_ONLY] })
+    ) as DependencyMatrix;
+
+    expect(matrix.getCell('domain', 'infra')!.value).toBe(0);
+    expect(matrix.getCyclicBlocks()).toEqual([]);
+    expect(matrix.getBlocks()).toEqual([['shared'], ['domain'], ['infra'], ['app']]);
+  });
+});
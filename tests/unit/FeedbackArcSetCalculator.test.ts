@@ -0,0 +1,79 @@
+/**
+ * Tests for FeedbackArcSetCalculator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FeedbackArcSetCalculator } from '../../src/domain/services/FeedbackArcSetCalculator.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../../src/domain/entities/ModuleProjection.js';
+import { Module } from '../../src/domain/entities/Module.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+const metadata: ModuleProjectionMetadata = {
+  sourceGraphId: 'test-graph',
+  createdAt: new Date(),
+  projectionType: ProjectionType.MODULE,
+  configuration: {},
+  rootPath: '/src',
+  aggregationLevel: AggregationLevel.DIRECTORY,
+  generatedAt: new Date(),
+  totalFiles: 0,
+  totalDependencies: 0
+};
+
+const createModule = (id: string): Module =>
+  new Module(id, id, `/src/${id}`, [`${id}1`], new Set(), new Set(), {
+    fileCount: 1,
+    totalLines: 10,
+    dependencyCount: 0,
+    dependentCount: 0
+  });
+
+/**
+ * Build a projection from "from->to" links, each with a number of import statements
+ */
+const build = (links: Array<[string, string, number]>): ModuleProjection => {
+  const ids = Array.from(new Set(links.flatMap(([from, to]) => [from, to])));
+  const modules = new Map(ids.map(id => [id, createModule(id)]));
+
+  for (const [from, to, count] of links) {
+    modules.get(from)!.recordImport(to, {
+      from: `/src/${from}/${from}1.ts`,
+      to: `/src/${to}/${to}1.ts`,
+      symbols: [`${to.toUpperCase()}Service`],
+      importCount: count
+    });
+  }
+
+  return new ModuleProjection('proj-1', metadata, Array.from(modules.values()));
+};
+
+describe('FeedbackArcSetCalculator', () => {
+  const calculator = new FeedbackArcSetCalculator();
+
+  it('should suggest nothing for an acyclic projection', () => {
+    const analysis = calculator.calculate(build([['a', 'b', 1], ['b', 'c', 1]]));
+
+    expect(analysis.suggestions).toEqual([]);
+    expect(analysis.cyclicComponents).toBe(0);
+  });
+
+  it('should cut the lighter side of a two-module cycle', () => {
+    const analysis = calculator.calculate(build([['a', 'b', 5], ['b', 'a', 1]]));
+
+    expect(analysis.suggestions).toHaveLength(1);
+    expect(analysis.suggestions[0]).toMatchObject({ from: 'b', to: 'a', weight: 1, symbols: ['AService'] });
+    expect(analysis.suggestions[0].imports[0]).toMatchObject({ from: '/src/b/b1.ts', to: '/src/a/a1.ts' });
+    expect(analysis.totalWeight).toBe(1);
+  });
+
+  it('should break every cycle with a minimal set of cuts', () => {
+    // Two cycles sharing the light c -> a edge
+    const projection = build([['a', 'b', 4], ['b', 'c', 4], ['c', 'a', 1], ['b', 'd', 3], ['d', 'c', 3]]);
+
+    const analysis = calculator.calculate(projection);
+
+    expect(analysis.suggestions.map(s => `${s.from}->${s.to}`)).toEqual(['c->a']);
+    expect(analysis.cyclicComponents).toBe(1);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for ForceDirectedLayoutEngine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ForceDirectedLayoutEngine } from '../../src/infrastructure/layout-engines/ForceDirectedLayoutEngine.js';
+import { GraphView, type GraphViewNode, type GraphViewEdge } from '../../src/domain/entities/GraphView.js';
+import { createLogger } from '@garrick0/c3-shared';
+
+const createView = (ids: string[], links: Array<[string, string, number?]>): GraphView => {
+  const nodes: GraphViewNode[] = ids.map(id => ({ id, label: id, type: 'module', width: 120, height: 60, metadata: {} }));
+  const edges: GraphViewEdge[] = links.map(([from, to, weight]) => ({ id: `${from}-${to}`, from, to, weight, metadata: {} }));
+  return new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() });
+};
+
+const positions = (view: GraphView) => view.nodes.map(n => [n.id, n.x, n.y]);
+
+const distance = (view: GraphView, a: string, b: string): number =>
+  Math.hypot(view.getNode(a)!.x! - view.getNode(b)!.x!, view.getNode(a)!.y! - view.getNode(b)!.y!);
+
+describe('ForceDirectedLayoutEngine', () => {
+  const logger = createLogger('test');
+  const ids = ['A', 'B', 'C', 'D', 'E', 'F'];
+  const links: Array<[string, string, number?]> = [['A', 'B'], ['B', 'C'], ['C', 'A'], ['C', 'D'], ['D', 'E'], ['E', 'C']];
+
+  it('should assign positive coordinates and record the layout', async () => {
+    const view = await new ForceDirectedLayoutEngine({}, logger).layout(createView(ids, links));
+
+    for (const node of view.nodes) {
+      expect(node.x! - node.width! / 2).toBeGreaterThanOrEqual(20 - 1e-9);
+      expect(node.y! - node.height! / 2).toBeGreaterThanOrEqual(20 - 1e-9);
+    }
+    expect(view.metadata.layout).toBe('force');
+    expect(view.metadata.layoutConfig).toMatchObject({ seed: 1, iterations: 300 });
+  });
+
+  it('should drop edge routes and cluster bounds from an earlier layout', async () => {
+    const view = createView(ids, links);
+    view.edges[0].points = [{ x: 0, y: 0 }, { x: 10, y: 10 }];
+    view.clusters.push({ id: 'cluster:core', label: 'core', x: 50, y: 50, width: 200, height: 100 });
+
+    await new ForceDirectedLayoutEngine({}, logger).layout(view);
+
+    expect(view.edges[0].points).toBeUndefined();
+    expect(view.getCluster('cluster:core')).toMatchObject({ x: undefined, y: undefined, width: undefined, height: undefined });
+  });
+
+  it('should be deterministic for a seed, regardless of node order', async () => {
+    const first = await new ForceDirectedLayoutEngine({ seed: 42 }, logger).layout(createView(ids, links));
+    const second = await new ForceDirectedLayoutEngine({ seed: 42 }, logger).layout(createView([...ids].reverse(), links));
+    const other = await new ForceDirectedLayoutEngine({ seed: 7 }, logger).layout(createView(ids, links));
+
+    const byId = (view: GraphView) => positions(view).sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    expect(byId(second)).toEqual(byId(first));
+    expect(byId(other)).not.toEqual(byId(first));
+  });
+
+  it('should keep node boxes apart', async () => {
+    const view = await new ForceDirectedLayoutEngine({ nodeSpacing: 10 }, logger).layout(createView(ids, links));
+
+    for (const a of view.nodes) {
+      for (const b of view.nodes) {
+        if (a === b) continue;
+        const separated = Math.abs(a.x! - b.x!) >= (a.width! + b.width!) / 2 + 10 - 1e-6
+          || Math.abs(a.y! - b.y!) >= (a.height! + b.height!) / 2 + 10 - 1e-6;
+        expect(separated).toBe(true);
+      }
+    }
+  });
+
+  it('should pull heavily weighted edges closer', async () => {
+    const view = await new ForceDirectedLayoutEngine({}, logger).layout(createView(['A', 'B', 'C'], [['A', 'B', 20], ['A', 'C', 1]]));
+
+    expect(distance(view, 'A', 'B')).toBeLessThan(distance(view, 'A', 'C'));
+  });
+});
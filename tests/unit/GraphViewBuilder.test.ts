@@ -91,6 +91,39 @@ describe('GraphViewBuilder', () => {
       expect(edges[0].to).toBe('module-B');
     });
 
+    it('should weight edges by the imports behind each dependency', () => {
+      const metrics: ModuleMetrics = { fileCount: 1, totalLines: 10, dependencyCount: 0, dependentCount: 0 };
+
+      const moduleA = new Module('module-A', 'ModuleA', '/test/A', ['a1', 'a2'], new Set(), new Set(), metrics);
+      const moduleB = new Module('module-B', 'ModuleB', '/test/B', ['b1'], new Set(), new Set(), metrics);
+      moduleA.recordImport('module-B', { from: '/test/A/a1.ts', to: '/test/B/b1.ts', symbols: ['User'] });
+      moduleA.recordImport('module-B', { from: '/test/A/a2.ts', to: '/test/B/b1.ts', symbols: ['User', 'Role'] });
+      moduleB.addDependency('module-A');
+
+      const metadata: ModuleProjectionMetadata = {
+        sourceGraphId: 'test-graph',
+        createdAt: new Date(),
+        projectionType: ProjectionType.MODULE,
+        configuration: {},
+        rootPath: '/test',
+        aggregationLevel: AggregationLevel.DIRECTORY,
+        generatedAt: new Date(),
+        totalFiles: 3,
+        totalDependencies: 2
+      };
+
+      const view = builder.build(new ModuleProjection('proj-1', metadata, [moduleA, moduleB]));
+
+      const weighted = view.getEdgesFrom('module-A')[0];
+      expect(weighted.weight).toBe(2);
+      expect(weighted.metadata.importCount).toBe(2);
+      expect(weighted.metadata.filePairCount).toBe(2);
+      expect(weighted.metadata.symbols).toEqual(['Role', 'User']);
+
+      // Dependencies without recorded imports count as a single import
+      expect(view.getEdgesFrom('module-B')[0].weight).toBe(1);
+    });
+
     it('should apply color scheme based on config', () => {
       const metrics: ModuleMetrics = {
         fileCount: 100,
@@ -195,6 +228,128 @@ describe('GraphViewBuilder', () => {
       expect(smallNode!.width).toBeLessThan(largeNode!.width!);
       expect(smallNode!.height).toBeLessThan(largeNode!.height!);
     });
+
+    it('should cluster modules by parent directory', () => {
+      const metrics: ModuleMetrics = { fileCount: 1, totalLines: 10, dependencyCount: 0, dependentCount: 0 };
+      const entities = new Module('module-entities', 'entities', '/test/src/domain/entities', ['f1'], new Set(), new Set(), metrics);
+      const services = new Module('module-services', 'services', '/test/src/domain/services', ['f2'], new Set(), new Set(), metrics);
+      const src = new Module('module-src', 'src', '/test/src', ['f3'], new Set(), new Set(), metrics);
+
+      const metadata: ModuleProjectionMetadata = {
+        sourceGraphId: 'test-graph',
+        createdAt: new Date(),
+        projectionType: ProjectionType.MODULE,
+        configuration: {},
+        rootPath: '/test',
+        aggregationLevel: AggregationLevel.DIRECTORY,
+        generatedAt: new Date(),
+        totalFiles: 3,
+        totalDependencies: 0
+      };
+
+      const projection = new ModuleProjection('proj-1', metadata, [entities, services, src]);
+
+      const view = builder.build(projection, { clusterBy: 'directory' });
+
+      expect(view.clusters).toEqual([{ id: 'cluster:src/domain', label: 'src/domain' }]);
+      expect(view.getNode('module-entities')!.parentId).toBe('cluster:src/domain');
+      expect(view.getNode('module-services')!.parentId).toBe('cluster:src/domain');
+      expect(view.getNode('module-src')!.parentId).toBeUndefined();
+    });
+
+    it('should cluster modules by the first layer matching their path', () => {
+      const metrics: ModuleMetrics = { fileCount: 1, totalLines: 10, dependencyCount: 0, dependentCount: 0 };
+      const ui = new Module('module-ui', 'ui', '/test/src/ui', ['f1'], new Set(), new Set(), metrics);
+      const entities = new Module('module-entities', 'entities', '/test/src/domain/entities', ['f2'], new Set(), new Set(), metrics);
+      const scripts = new Module('module-scripts', 'scripts', '/test/scripts', ['f3'], new Set(), new Set(), metrics);
+
+      const metadata: ModuleProjectionMetadata = {
+        sourceGraphId: 'test-graph',
+        createdAt: new Date(),
+        projectionType: ProjectionType.MODULE,
+        configuration: {},
+        rootPath: '/test',
+        aggregationLevel: AggregationLevel.DIRECTORY,
+        generatedAt: new Date(),
+        totalFiles: 3,
+        totalDependencies: 0
+      };
+
+      const projection = new ModuleProjection('proj-1', metadata, [ui, entities, scripts]);
+      const layers = [
+        { name: 'presentation', paths: ['src/ui/**'] },
+        { name: 'application', paths: ['src/app/**'] },
+        { name: 'domain', paths: ['src/domain/**', 'src/**'] }
+      ];
+
+      const view = builder.build(projection, { clusterBy: 'layer', layers });
+
+      expect(view.clusters).toEqual([
+        { id: 'cluster:presentation', label: 'presentation' },
+        { id: 'cluster:domain', label: 'domain' }
+      ]);
+      expect(view.getNode('module-ui')!.parentId).toBe('cluster:presentation');
+      expect(view.getNode('module-entities')!.parentId).toBe('cluster:domain');
+      expect(view.getNode('module-scripts')!.parentId).toBeUndefined();
+      expect(() => builder.build(projection, { clusterBy: 'layer' })).toThrow('requires at least one layer');
+    });
+
+    describe('centrality', () => {
+      // api -> core -> db: core lies on the only path through the chain, db collects the PageRank
+      const createChain = () => {
+        const metrics: ModuleMetrics = { fileCount: 1, totalLines: 10, dependencyCount: 0, dependentCount: 0 };
+        const metadata: ModuleProjectionMetadata = {
+          sourceGraphId: 'test-graph',
+          createdAt: new Date(),
+          projectionType: ProjectionType.MODULE,
+          configuration: {},
+          rootPath: '/test',
+          aggregationLevel: AggregationLevel.DIRECTORY,
+          generatedAt: new Date(),
+          totalFiles: 3,
+          totalDependencies: 2
+        };
+
+        return new ModuleProjection('proj-1', metadata, [
+          new Module('module-api', 'api', '/test/api', ['f1'], new Set(['module-core']), new Set(), { ...metrics }),
+          new Module('module-core', 'core', '/test/core', ['f2'], new Set(['module-db']), new Set(['module-api']), { ...metrics }),
+          new Module('module-db', 'db', '/test/db', ['f3'], new Set(), new Set(['module-core']), { ...metrics })
+        ]);
+      };
+
+      it('should color nodes by betweenness with the centrality color scheme', () => {
+        const view = builder.build(createChain(), { colorScheme: 'centrality' });
+
+        expect(view.getNode('module-core')!.color).toBe('#ff6b6b');
+        expect(view.getNode('module-api')!.color).toBe('#1dd1a1');
+        expect(view.getNode('module-db')!.color).toBe('#1dd1a1');
+        expect(view.getNode('module-core')!.metadata.betweenness).toBeGreaterThan(0);
+      });
+
+      it('should size nodes by PageRank with the centrality node size', () => {
+        const view = builder.build(createChain(), { nodeSize: 'centrality' });
+        const widths = ['module-api', 'module-core', 'module-db'].map(id => view.getNode(id)!.width!);
+
+        expect(view.getNode('module-db')).toMatchObject({ width: 180, height: 70 });
+        expect(widths[0]).toBeLessThan(widths[1]);
+        expect(widths[1]).toBeLessThan(widths[2]);
+      });
+
+      it('should compute centrality only when a scheme or includeMetrics asks for it', () => {
+        const projection = createChain();
+        const before = projection.getModules().map(m => ({ ...m.metrics }));
+
+        const plain = builder.build(projection, { colorScheme: 'dependencies' });
+        expect(plain.getNode('module-core')!.metadata).not.toHaveProperty('betweenness');
+
+        const withMetrics = builder.build(projection, { includeMetrics: true });
+        expect(withMetrics.getNode('module-core')!.metadata).toMatchObject({ clustering: 0, coreNumber: 1 });
+        expect(withMetrics.getNode('module-core')!.metadata.pageRank).toBeGreaterThan(0);
+
+        // The projection's modules are left as they were
+        expect(projection.getModules().map(m => m.metrics)).toEqual(before);
+      });
+    });
   });
 });
 
@@ -0,0 +1,52 @@
+/**
+ * Tests for ImportMetadataReader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Edge, EdgeType } from '@garrick0/c3-parsing';
+import { ImportMetadataReader, type ImportEdgeMetadata } from '../../src/domain/services/ImportMetadataReader.js';
+import { ImportKind } from '../../src/domain/value-objects/ImportKind.js';
+
+describe('ImportMetadataReader', () => {
+  const reader = new ImportMetadataReader();
+
+  const importEdge = (metadata?: ImportEdgeMetadata) =>
+    new Edge('edge-1', EdgeType.IMPORTS, 'file-a', 'file-b', metadata);
+
+  it('should read importedSymbols', () => {
+    expect(reader.getSymbols(importEdge({ importedSymbols: ['default', 'User', '*', 'User'] })))
+      .toEqual(['default', 'User', '*']);
+    expect(reader.getKind(importEdge({ importedSymbols: ['User'] }))).toBe(ImportKind.VALUE);
+  });
+
+  it('should treat an empty importedSymbols list as a side-effect import', () => {
+    expect(reader.getSymbols(importEdge({ importedSymbols: [] }))).toEqual([]);
+    expect(reader.getKind(importEdge({ importedSymbols: [] }))).toBe(ImportKind.SIDE_EFFECT);
+  });
+
+  it('should read isTypeOnly', () => {
+    expect(reader.getKind(importEdge({ importedSymbols: ['User'], isTypeOnly: true }))).toBe(ImportKind.TYPE_ONLY);
+  });
+
+  it('should read isDynamic', () => {
+    expect(reader.getKind(importEdge({ importedSymbols: [], isDynamic: true }))).toBe(ImportKind.DYNAMIC);
+  });
+
+  it('should read isReExport ahead of the other flags', () => {
+    expect(reader.getKind(importEdge({ importedSymbols: ['User'], isReExport: true, isTypeOnly: true })))
+      .toBe(ImportKind.RE_EXPORT);
+  });
+
+  it('should read lineNumber', () => {
+    expect(reader.getLine(importEdge({ lineNumber: 12 }))).toBe(12);
+    expect(reader.getLine(importEdge({ lineNumber: 0 }))).toBeUndefined();
+  });
+
+  it('should read edges without metadata as value imports of nothing', () => {
+    const edge = importEdge();
+
+    expect(reader.getSymbols(edge)).toEqual([]);
+    expect(reader.getKind(edge)).toBe(ImportKind.VALUE);
+    expect(reader.getLine(edge)).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * ImportResolver Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PropertyGraph, NodeType, EdgeType, Node, Edge } from '@garrick0/c3-parsing';
+import { ImportResolver } from '../../src/domain/services/ImportResolver.js';
+import { type TsConfigPathMapping } from '../../src/domain/services/TsConfigLoader.js';
+import { type PackageManifest } from '../../src/domain/services/PackageManifestReader.js';
+
+const createGraph = (files: Record<string, string>): PropertyGraph => {
+  const graph = new PropertyGraph('test-graph');
+  for (const [id, filePath] of Object.entries(files)) {
+    graph.addNode(new Node(id, NodeType.FILE, new Set(['File']), { filePath }));
+  }
+  return graph;
+};
+
+const importEdge = (fromNodeId: string, specifier: string): Edge =>
+  new Edge(`edge-${specifier}`, EdgeType.IMPORTS, fromNodeId, specifier);
+
+describe('ImportResolver', () => {
+  const graph = createGraph({
+    app: '/repo/src/app/main.ts',
+    user: '/repo/src/domain/User.ts',
+    legacyUser: '/repo/legacy/domain/User.ts',
+    config: '/repo/src/config/index.ts',
+    utils: '/repo/src/utils.ts'
+  });
+
+  const pathMapping: TsConfigPathMapping = {
+    configPath: '/repo/tsconfig.json',
+    baseUrl: '/repo/src',
+    pathsBasePath: '/repo/src',
+    paths: {
+      '@/*': ['*'],
+      '@/domain/*': ['../legacy/domain/*'],
+      '@domain/*': ['../legacy/domain/*', 'domain/*'],
+      '@config': ['config/index.ts']
+    }
+  };
+
+  it('should resolve relative imports without any options', () => {
+    const resolver = new ImportResolver(graph);
+
+    expect(resolver.resolve(importEdge('app', '../domain/User.js'))).toBe('user');
+    expect(resolver.resolve(importEdge('app', '@/domain/User'))).toBeUndefined();
+  });
+
+  it('should resolve wildcard and exact path aliases', () => {
+    const resolver = new ImportResolver(graph, { pathMapping });
+
+    expect(resolver.resolve(importEdge('app', '@/utils'))).toBe('utils');
+    expect(resolver.resolve(importEdge('app', '@config'))).toBe('config');
+  });
+
+  it('should prefer the longest matching prefix and try targets in order', () => {
+    const resolver = new ImportResolver(graph, { pathMapping });
+
+    expect(resolver.resolve(importEdge('app', '@/domain/User'))).toBe('legacyUser');
+    // Both '@domain/*' targets exist; the first one wins
+    expect(resolver.resolve(importEdge('app', '@domain/User'))).toBe('legacyUser');
+  });
+
+  it('should resolve non-relative imports against baseUrl', () => {
+    const resolver = new ImportResolver(graph, { pathMapping });
+
+    expect(resolver.resolve(importEdge('app', 'domain/User.js'))).toBe('user');
+    expect(resolver.resolve(importEdge('app', 'lodash'))).toBeUndefined();
+  });
+
+  describe('diagnose', () => {
+    const resolver = new ImportResolver(graph, { pathMapping });
+
+    it('should return nothing for resolvable imports', () => {
+      expect(resolver.diagnose(importEdge('app', '../domain/User.js'))).toBeUndefined();
+    });
+
+    it('should report the attempted paths of a missing relative file', () => {
+      const diagnostic = resolver.diagnose(importEdge('app', './missing.js'))!;
+
+      expect(diagnostic.specifier).toBe('./missing.js');
+      expect(diagnostic.file).toBe('/repo/src/app/main.ts');
+      expect(diagnostic.category).toBe('missing-file');
+      expect(diagnostic.attempts).toContain('/repo/src/app/missing.ts');
+    });
+
+    it('should categorize unresolved imports', () => {
+      expect(resolver.diagnose(importEdge('app', './styles.css'))!.category).toBe('unsupported-extension');
+      expect(resolver.diagnose(importEdge('app', '@/missing'))!.category).toBe('alias');
+      expect(resolver.diagnose(importEdge('app', '@scope/lib'))!.category).toBe('external');
+      expect(resolver.diagnose(importEdge('app', 'node:fs'))!.category).toBe('external');
+    });
+
+    it('should take packages no package.json declares for aliases once manifests are loaded', () => {
+      const packageManifests = new Map<string, PackageManifest>([
+        ['/repo', { workspaces: [], dependencies: { '@scope/lib': '^2.0.0' } }]
+      ]);
+      const withManifests = new ImportResolver(graph, { pathMapping, packageManifests });
+
+      expect(withManifests.diagnose(importEdge('app', '@scope/lib'))!.category).toBe('external');
+      expect(withManifests.diagnose(importEdge('app', '@app/utils'))!.category).toBe('alias');
+      expect(withManifests.diagnose(importEdge('app', 'node:fs'))!.category).toBe('external');
+      expect(withManifests.getExternalPackage('@app/utils')).toBeUndefined();
+      expect(withManifests.getExternalPackage('@scope/lib/sub')).toEqual({ packageName: '@scope/lib', builtin: false });
+    });
+  });
+});
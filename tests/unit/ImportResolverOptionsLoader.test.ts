@@ -0,0 +1,72 @@
+/**
+ * Tests for ImportResolverOptionsLoader
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PropertyGraph, Node, Edge, NodeType, EdgeType } from '@garrick0/c3-parsing';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { ImportResolverOptionsLoader } from '../../src/domain/services/ImportResolverOptionsLoader.js';
+import { ViewConfiguration } from '../../src/domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+describe('ImportResolverOptionsLoader', () => {
+  const loader = new ImportResolverOptionsLoader(new Logger('test', LogLevel.ERROR));
+  let root: string;
+
+  const configFor = (aggregationLevel: AggregationLevel) => ViewConfiguration.create({
+    projectionType: ProjectionType.MODULE,
+    aggregationLevel
+  });
+
+  const graphImporting = (...specifiers: string[]): PropertyGraph => {
+    const graph = new PropertyGraph('test-graph');
+    graph.addNode(new Node('main', NodeType.FILE, new Set(['File']), { filePath: path.join(root, 'packages/app/main.ts') }));
+    specifiers.forEach((specifier, i) => graph.addEdge(new Edge(`edge-${i}`, EdgeType.IMPORTS, 'main', specifier)));
+    return graph;
+  };
+
+  const packageNames = async (aggregationLevel: AggregationLevel, graph?: PropertyGraph) =>
+    (await loader.load(root, configFor(aggregationLevel), graph)).workspacePackages!.map(p => p.name);
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'c3-options-'));
+    await fs.mkdir(path.join(root, 'packages/app'), { recursive: true });
+    await fs.writeFile(path.join(root, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }));
+    await fs.writeFile(path.join(root, 'packages/app/package.json'), JSON.stringify({ name: '@acme/app' }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should skip workspace discovery when no import names a package', async () => {
+    expect(await packageNames(AggregationLevel.DIRECTORY, graphImporting('./util', 'node:fs', 'path'))).toEqual([]);
+  });
+
+  it('should discover workspace packages for package imports, PACKAGE level, or without a graph', async () => {
+    expect(await packageNames(AggregationLevel.DIRECTORY, graphImporting('./util', '@acme/app'))).toEqual(['@acme/app']);
+    expect(await packageNames(AggregationLevel.PACKAGE, graphImporting('./util'))).toEqual(['@acme/app']);
+    expect(await packageNames(AggregationLevel.DIRECTORY)).toEqual(['@acme/app']);
+  });
+
+  it('should read the package.json files above files that import packages', async () => {
+    await fs.writeFile(path.join(root, 'packages/app/package.json'), JSON.stringify({
+      name: '@acme/app',
+      dependencies: { dagre: '^0.8.5' },
+      devDependencies: { dagre: '^0.7.0', vitest: '^1.0.0' }
+    }));
+
+    const options = await loader.load(root, configFor(AggregationLevel.DIRECTORY), graphImporting('dagre'));
+
+    expect(Array.from(options.packageManifests!.keys())).toEqual([path.join(root, 'packages/app'), root]);
+    expect(options.packageManifests!.get(path.join(root, 'packages/app'))!.dependencies)
+      .toEqual({ dagre: '^0.8.5', vitest: '^1.0.0' });
+
+    const withoutPackageImports = await loader.load(root, configFor(AggregationLevel.DIRECTORY), graphImporting('./util'));
+    expect(withoutPackageImports.packageManifests!.size).toBe(0);
+  });
+});
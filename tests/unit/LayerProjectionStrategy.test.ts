@@ -0,0 +1,113 @@
+/**
+ * Tests for LayerProjectionStrategy
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PropertyGraph, Node, Edge, NodeType, EdgeType, type NodeMetadata, type SourceMetadata } from '@garrick0/c3-parsing';
+import { createLogger } from '@garrick0/c3-shared';
+import { LayerProjectionStrategy } from '../../src/infrastructure/strategies/LayerProjectionStrategy.js';
+import { LayerProjection, type LayerDefinition } from '../../src/domain/entities/LayerProjection.js';
+import { ViewConfiguration } from '../../src/domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+describe('LayerProjectionStrategy', () => {
+  const logger = createLogger('test');
+  const sourceMetadata: SourceMetadata = {
+    domain: 'code',
+    extension: 'typescript',
+    version: '1.0.0'
+  };
+
+  const layers: LayerDefinition[] = [
+    { name: 'infrastructure', paths: ['infrastructure/**'] },
+    { name: 'application', paths: ['application/**'] },
+    { name: 'domain', paths: ['domain/**'] }
+  ];
+
+  let strategy: LayerProjectionStrategy;
+  let graph: PropertyGraph;
+
+  const addFile = (id: string, filePath: string) => {
+    graph.addNode(new Node(
+      id,
+      NodeType.FILE,
+      filePath.split('/').pop()!,
+      { filePath, startLine: 1, endLine: 10 } as NodeMetadata,
+      new Set(['CodeElement', 'File']),
+      sourceMetadata
+    ));
+  };
+
+  const configFor = (definitions: LayerDefinition[]) => ViewConfiguration.create({
+    projectionType: ProjectionType.LAYER,
+    aggregationLevel: AggregationLevel.DIRECTORY,
+    options: { layers: definitions }
+  });
+
+  beforeEach(() => {
+    strategy = new LayerProjectionStrategy(logger, '/test/src');
+    graph = new PropertyGraph('test-graph', {
+      codebaseId: 'test',
+      parsedAt: new Date(),
+      language: 'typescript',
+      version: '1.0.0'
+    });
+
+    addFile('file-domain', '/test/src/domain/Entity.ts');
+    addFile('file-app', '/test/src/application/UseCase.ts');
+    addFile('file-infra', '/test/src/infrastructure/Adapter.ts');
+  });
+
+  it('should assign files to layers and allow downward imports', async () => {
+    graph.addEdge(new Edge('e1', EdgeType.IMPORTS, 'file-app', '../domain/Entity.js', {}, sourceMetadata));
+    graph.addEdge(new Edge('e2', EdgeType.IMPORTS, 'file-infra', 'file-domain', {}, sourceMetadata));
+
+    const projection = await strategy.project(graph, configFor(layers)) as LayerProjection;
+
+    expect(projection).toBeInstanceOf(LayerProjection);
+    expect(projection.getLayers()).toHaveLength(3);
+    expect(projection.getLayer('domain')!.nodeCount).toBe(1);
+    expect(projection.getLayer('application')!.dependencies).toEqual(['domain']);
+    expect(projection.hasViolations()).toBe(false);
+  });
+
+  it('should report upward imports as file-level violations', async () => {
+    graph.addEdge(new Edge('e1', EdgeType.IMPORTS, 'file-domain', '../infrastructure/Adapter.js', {}, sourceMetadata));
+
+    const projection = await strategy.project(graph, configFor(layers)) as LayerProjection;
+    const violations = projection.getAllViolations();
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      from: '/test/src/domain/Entity.ts',
+      to: '/test/src/infrastructure/Adapter.ts',
+      fromLayer: 'domain',
+      toLayer: 'infrastructure',
+      edgeId: 'e1'
+    });
+    expect(violations[0].reason).toContain("'domain'");
+  });
+
+  it('should honour explicit canDependOn lists', async () => {
+    graph.addEdge(new Edge('e1', EdgeType.IMPORTS, 'file-infra', 'file-domain', {}, sourceMetadata));
+
+    const strict: LayerDefinition[] = [
+      { name: 'infrastructure', paths: ['infrastructure/**'], canDependOn: ['application'] },
+      { name: 'application', paths: ['application/**'] },
+      { name: 'domain', paths: ['domain/**'] }
+    ];
+
+    const projection = await strategy.project(graph, configFor(strict)) as LayerProjection;
+
+    expect(projection.getLayer('infrastructure')!.violations).toHaveLength(1);
+  });
+
+  it('should reject references to unknown layers', async () => {
+    const invalid: LayerDefinition[] = [
+      { name: 'domain', paths: ['domain/**'], canDependOn: ['missing'] }
+    ];
+
+    await expect(strategy.project(graph, configFor(invalid))).rejects.toThrow('unknown layer');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for LayoutEngineRegistry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LayoutEngineRegistry } from '../../src/infrastructure/layout-engines/LayoutEngineRegistry.js';
+import { GridLayoutEngine } from '../../src/infrastructure/layout-engines/GridLayoutEngine.js';
+import { GraphView, type GraphViewNode, type GraphViewEdge } from '../../src/domain/entities/GraphView.js';
+import { createLogger } from '@garrick0/c3-shared';
+
+const createView = (ids: string[], links: Array<[string, string]>): GraphView => {
+  const nodes: GraphViewNode[] = ids.map(id => ({ id, label: id, type: 'module', width: 100, height: 50, metadata: {} }));
+  const edges: GraphViewEdge[] = links.map(([from, to]) => ({ id: `${from}-${to}`, from, to, metadata: {} }));
+  return new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() });
+};
+
+describe('LayoutEngineRegistry', () => {
+  const logger = createLogger('test');
+  const registry = new LayoutEngineRegistry(logger);
+
+  it('should create the built-in engines by name', () => {
+    expect(registry.getNames()).toEqual(['dagre', 'force', 'circular', 'radial', 'concentric', 'grid']);
+    for (const name of registry.getNames()) {
+      expect(registry.create(name).getName()).toBe(name);
+    }
+  });
+
+  it('should reject unknown engines and invalid configuration', () => {
+    expect(() => registry.create('spring')).toThrow(`Unknown layout engine 'spring'`);
+    expect(() => registry.create('dagre', { rankdir: 'XX' } as any)).toThrow(`Layout 'dagre' config: "rankdir" must be one of TB, BT, LR, RL`);
+    expect(() => registry.create('force', { iterations: 2.5 })).toThrow(`Layout 'force' config: "iterations" must be an integer`);
+    expect(() => registry.create('grid', { columns: 0 })).toThrow(`Layout 'grid' config: "columns" must be at least 1`);
+    expect(() => registry.create('circular', { spacing: 10 } as any)).toThrow(`Layout 'circular' config: unknown option "spacing"`);
+  });
+
+  it('should record the requested engine', async () => {
+    const view = await registry.layout(createView(['a', 'b'], [['a', 'b']]), 'circular', { order: 'input' });
+
+    expect(view.metadata.layout).toBe('circular');
+    expect(view.metadata.layoutSelection).toEqual({ requested: 'circular', engine: 'circular', reasons: [`'circular' was requested`] });
+  });
+
+  it('should pick an engine from the shape of the graph in auto mode', async () => {
+    const layered = await registry.layout(createView(['a', 'b', 'c'], [['a', 'b'], ['b', 'c']]));
+    const cyclic = await registry.layout(createView(['a', 'b', 'c'], [['a', 'b'], ['b', 'c'], ['c', 'a']]), 'auto', {
+      engines: { force: { iterations: 50 } }
+    });
+    const unlinked = await registry.layout(createView(['a', 'b', 'c', 'd'], []));
+
+    expect(layered.metadata.layoutSelection).toMatchObject({ requested: 'auto', engine: 'dagre' });
+    expect(cyclic.metadata.layoutSelection).toMatchObject({ engine: 'force', reasons: ['3 of 3 nodes are in dependency cycles'] });
+    expect(cyclic.metadata.layoutConfig).toMatchObject({ iterations: 50 });
+    expect(unlinked.metadata.layoutSelection).toMatchObject({ engine: 'grid', reasons: ['no edges between 4 nodes'] });
+    expect(unlinked.nodes.map(n => [n.x, n.y])).toEqual([[70, 45], [220, 45], [70, 145], [220, 145]]);
+  });
+
+  it('should use registered engines and validate every auto configuration', async () => {
+    const custom = new LayoutEngineRegistry(logger);
+    custom.register('tiles', (config: { columns?: number }, log) => new GridLayoutEngine(config, log));
+
+    expect(custom.create('tiles', { columns: 3 })).toBeInstanceOf(GridLayoutEngine);
+    expect(() => custom.register('auto', (_, log) => new GridLayoutEngine({}, log))).toThrow(`'auto' is reserved`);
+    await expect(custom.layout(createView(['a'], []), 'auto', { engines: { dagre: { nodesep: -1 } } }))
+      .rejects.toThrow(`Layout 'dagre' config: "nodesep" must be at least 0`);
+  });
+});
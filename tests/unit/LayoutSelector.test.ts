@@ -0,0 +1,62 @@
+/**
+ * Tests for LayoutSelector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LayoutSelector } from '../../src/domain/services/LayoutSelector.js';
+import { GraphView, type GraphViewNode, type GraphViewEdge } from '../../src/domain/entities/GraphView.js';
+
+const createView = (ids: string[], links: Array<[string, string]>): GraphView => {
+  const nodes: GraphViewNode[] = ids.map(id => ({ id, label: id, type: 'module', metadata: {} }));
+  const edges: GraphViewEdge[] = links.map(([from, to]) => ({ id: `${from}-${to}`, from, to, metadata: {} }));
+  return new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() });
+};
+
+describe('LayoutSelector', () => {
+  const selector = new LayoutSelector();
+  const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+  it('should measure graph traits', () => {
+    const traits = selector.analyze(createView(ids, [['a', 'b'], ['b', 'a'], ['a', 'b'], ['c', 'c'], ['c', 'd'], ['e', 'x']]));
+
+    expect(traits).toEqual({
+      nodes: 6,
+      edges: 3,
+      density: 3 / 30,
+      components: 4,
+      isolatedNodes: 2,
+      cyclicNodes: 2
+    });
+  });
+
+  it('should pick a layered layout for sparse acyclic graphs', () => {
+    const selection = selector.select(createView(ids, [['a', 'b'], ['b', 'c'], ['a', 'd'], ['e', 'f']]));
+
+    expect(selection.style).toBe('layered');
+    expect(selection.reasons).toEqual(['acyclic with 4 edges between 6 nodes']);
+  });
+
+  it('should pick a force layout for cyclic or dense graphs', () => {
+    const cyclic = selector.select(createView(ids, [['a', 'b'], ['b', 'c'], ['c', 'a']]));
+    const dense = selector.select(createView(ids, [['a', 'b'], ['a', 'c'], ['a', 'd'], ['b', 'c'], ['b', 'd'], ['c', 'd'], ['e', 'f']]), { denseThreshold: 0.2 });
+
+    expect(cyclic.style).toBe('force');
+    expect(cyclic.reasons).toEqual(['3 of 6 nodes are in dependency cycles']);
+    expect(dense.style).toBe('force');
+    expect(dense.reasons).toEqual(['edge density 0.23 is at least 0.2']);
+  });
+
+  it('should pick a grid for graphs without edges', () => {
+    const selection = selector.select(createView(ids, [['a', 'a']]));
+
+    expect(selection.style).toBe('grid');
+    expect(selection.reasons).toEqual(['no edges between 6 nodes']);
+  });
+
+  it('should pick a grid for graphs made of many tiny components', () => {
+    const selection = selector.select(createView([...ids, 'g', 'h', 'i', 'j'], [['a', 'b'], ['c', 'd'], ['e', 'f']]));
+
+    expect(selection.style).toBe('grid');
+    expect(selection.reasons).toEqual(['10 nodes fall into 7 components, 4 of them without edges']);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Tests for MetricsCalculator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PropertyGraph, NodeType, Node } from '@garrick0/c3-parsing';
+import { MetricsCalculator } from '../../src/domain/services/MetricsCalculator.js';
+import { Module } from '../../src/domain/entities/Module.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../../src/domain/entities/ModuleProjection.js';
+import { GraphView, type GraphViewNode, type GraphViewEdge } from '../../src/domain/entities/GraphView.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+const metadata: ModuleProjectionMetadata = {
+  sourceGraphId: 'test-graph',
+  createdAt: new Date(),
+  projectionType: ProjectionType.MODULE,
+  configuration: {},
+  rootPath: '/src',
+  aggregationLevel: AggregationLevel.TOP_LEVEL,
+  generatedAt: new Date(),
+  totalFiles: 0,
+  totalDependencies: 0
+};
+
+const createModule = (id: string, files: string[], dependencies: string[] = [], dependents: string[] = []): Module =>
+  new Module(id, id, `/src/${id}`, files, new Set(dependencies), new Set(dependents), {
+    fileCount: files.length,
+    totalLines: 0,
+    dependencyCount: dependencies.length,
+    dependentCount: dependents.length
+  });
+
+describe('MetricsCalculator', () => {
+  const calculator = new MetricsCalculator();
+
+  describe('calculatePackageMetrics', () => {
+    // app -> domain <- infra, infra -> app
+    const build = () => {
+      const graph = new PropertyGraph('test-graph');
+      graph.addNode(new Node('f-domain', NodeType.FILE, new Set(['File']), { filePath: '/src/domain/Repo.ts' }));
+      graph.addNode(new Node('f-app', NodeType.FILE, new Set(['File']), { filePath: '/src/app/Service.ts' }));
+      graph.addNode(new Node('f-infra', NodeType.FILE, new Set(['File']), { filePath: '/src/infra/SqlRepo.ts' }));
+
+      graph.addNode(new Node('c-repo', NodeType.INTERFACE, new Set(['Interface']), { filePath: '/src/domain/Repo.ts' }));
+      graph.addNode(new Node('c-base', NodeType.CLASS, new Set(['Class']), { filePath: '/src/domain/Repo.ts', isAbstract: true }));
+      graph.addNode(new Node('c-entity', NodeType.CLASS, new Set(['Class']), { filePath: '/src/domain/Repo.ts' }));
+      graph.addNode(new Node('c-service', NodeType.CLASS, new Set(['Class']), { filePath: '/src/app/Service.ts' }));
+
+      const modules = [
+        createModule('domain', ['f-domain'], [], ['app', 'infra']),
+        createModule('app', ['f-app'], ['domain'], ['infra']),
+        createModule('infra', ['f-infra'], ['domain', 'app'], [])
+      ];
+
+      return { graph, modules };
+    };
+
+    it('should compute coupling, instability, abstractness and distance', () => {
+      const { graph, modules } = build();
+
+      calculator.calculatePackageMetrics(modules, graph);
+
+      const [domain, app, infra] = modules.map(m => m.metrics);
+      expect(domain).toMatchObject({ afferentCoupling: 2, efferentCoupling: 0, instability: 0, typeCount: 3, abstractTypeCount: 2 });
+      expect(domain.abstractness).toBeCloseTo(2 / 3);
+      expect(domain.distance).toBeCloseTo(1 / 3);
+
+      expect(app).toMatchObject({ instability: 0.5, abstractness: 0, distance: 0.5 });
+      expect(infra).toMatchObject({ instability: 1, abstractness: 0, distance: 0, typeCount: 0 });
+    });
+
+    it('should leave external modules out of coupling counts', () => {
+      const { graph, modules } = build();
+      const lodash = createModule('external:lodash', [], [], ['app']);
+      lodash.markExternal({ packageName: 'lodash', builtin: false });
+      modules[1].addDependency('external:lodash');
+
+      calculator.calculatePackageMetrics([...modules, lodash], graph);
+
+      expect(modules[1].metrics.efferentCoupling).toBe(1);
+      expect(lodash.metrics.instability).toBeUndefined();
+    });
+  });
+
+  describe('calculateLineCount', () => {
+    it('should count the first and last line of every file', () => {
+      const files = [
+        new Node('f-a', NodeType.FILE, new Set(['File']), { filePath: '/src/a.ts', startLine: 1, endLine: 10 }),
+        new Node('f-b', NodeType.FILE, new Set(['File']), { filePath: '/src/b.ts', endLine: 5 }),
+        new Node('f-empty', NodeType.FILE, new Set(['File']), { filePath: '/src/empty.ts' })
+      ];
+
+      expect(calculator.calculateLineCount(files)).toBe(15);
+    });
+  });
+
+  describe('getMainSequenceZones', () => {
+    const withMetrics = (id: string, abstractness: number, instability: number): Module => {
+      const module = createModule(id, []);
+      Object.assign(module.metrics, {
+        afferentCoupling: 1,
+        efferentCoupling: 1,
+        abstractness,
+        instability,
+        distance: Math.abs(abstractness + instability - 1)
+      });
+      return module;
+    };
+
+    it('should list concrete stable and abstract unstable modules', () => {
+      const zones = calculator.getMainSequenceZones([
+        withMetrics('utils', 0, 0.1),
+        withMetrics('contracts', 0.9, 0.9),
+        withMetrics('balanced', 0.5, 0.5)
+      ]);
+
+      expect(zones.pain.map(m => m.id)).toEqual(['utils']);
+      expect(zones.uselessness.map(m => m.id)).toEqual(['contracts']);
+    });
+
+    it('should record the zones on a projection', () => {
+      const projection = new ModuleProjection('proj-1', metadata, [withMetrics('utils', 0, 0.1)]);
+
+      calculator.recordMainSequenceZones(projection);
+
+      expect(projection.getSummary().zoneOfPain).toEqual(['utils']);
+    });
+  });
+
+  describe('calculateCentrality', () => {
+    it('should rank the middle of a chain highest in betweenness', () => {
+      const centrality = calculator.calculateCentrality(['a', 'b', 'c'], [
+        { from: 'a', to: 'b' },
+        { from: 'b', to: 'c' }
+      ]);
+
+      expect(centrality.get('b')!.betweenness).toBeGreaterThan(0);
+      expect(centrality.get('a')!.betweenness).toBe(0);
+      expect(centrality.get('c')!.betweenness).toBe(0);
+      // PageRank flows towards dependencies
+      expect(centrality.get('c')!.pageRank).toBeGreaterThan(centrality.get('a')!.pageRank);
+    });
+
+    it('should compute clustering and core numbers ignoring direction', () => {
+      const centrality = calculator.calculateCentrality(['a', 'b', 'c', 'd'], [
+        { from: 'a', to: 'b' },
+        { from: 'b', to: 'c' },
+        { from: 'c', to: 'a' },
+        { from: 'd', to: 'a' }
+      ]);
+
+      expect(centrality.get('b')!).toMatchObject({ clustering: 1, coreNumber: 2 });
+      expect(centrality.get('a')!.clustering).toBeCloseTo(1 / 3);
+      expect(centrality.get('d')!).toMatchObject({ clustering: 0, coreNumber: 1 });
+
+      const totalRank = Array.from(centrality.values()).reduce((sum, c) => sum + c.pageRank, 0);
+      expect(totalRank).toBeCloseTo(1);
+    });
+  });
+
+  describe('calculateModuleCentrality', () => {
+    it('should key centrality by module without changing module metrics', () => {
+      const modules = [
+        createModule('api', ['a1'], ['core']),
+        createModule('core', ['c1'], ['db'], ['api']),
+        createModule('db', ['d1'], [], ['core'])
+      ];
+      const before = modules.map(m => ({ ...m.metrics }));
+
+      const centrality = calculator.calculateModuleCentrality(new ModuleProjection('proj-1', metadata, modules));
+
+      expect(Array.from(centrality.keys())).toEqual(['api', 'core', 'db']);
+      expect(centrality.get('core')!.betweenness).toBeGreaterThan(0);
+      expect(modules.map(m => m.metrics)).toEqual(before);
+    });
+  });
+
+  describe('calculateGraphViewMetrics', () => {
+    const viewNode = (id: string): GraphViewNode => ({ id, label: id, type: 'module', metadata: {} });
+    const viewEdge = (from: string, to: string): GraphViewEdge => ({ id: `${from}-${to}`, from, to, metadata: {} });
+
+    it('should store centrality in node metadata and return the view metrics', () => {
+      const view = new GraphView(
+        'view-1',
+        ['a', 'b', 'c', 'd'].map(viewNode),
+        [viewEdge('a', 'b'), viewEdge('b', 'c'), viewEdge('c', 'a'), viewEdge('d', 'a')],
+        { projectionType: 'module-dependency', generatedAt: new Date() }
+      );
+
+      const metrics = calculator.calculateGraphViewMetrics(view);
+
+      expect(metrics).toMatchObject({ nodeCount: 4, edgeCount: 4, averageDegree: 2 });
+      expect(metrics.density).toBeCloseTo(4 / 12);
+      expect(metrics.clustering).toBeCloseTo((1 / 3 + 1 + 1 + 0) / 4);
+      expect(view.getNode('b')!.metadata).toMatchObject({ clustering: 1, coreNumber: 2 });
+      expect(view.getNode('d')!.metadata).toMatchObject({ betweenness: 0, clustering: 0, coreNumber: 1 });
+      expect(view.getNode('a')!.metadata.pageRank).toBeGreaterThan(view.getNode('d')!.metadata.pageRank);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for ModuleAggregator
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PropertyGraph, Node, NodeType, type NodeMetadata, type SourceMetadata } from '@garrick0/c3-parsing';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { ModuleAggregator, type GroupingRule } from '../../src/domain/services/ModuleAggregator.js';
+import { type WorkspacePackage } from '../../src/domain/services/WorkspaceDiscovery.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+import { ViewConfiguration } from '../../src/domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+
+describe('ModuleAggregator', () => {
+  const aggregator = new ModuleAggregator(new Logger('test', LogLevel.ERROR));
+  const sourceMetadata: SourceMetadata = {
+    domain: 'code',
+    extension: 'typescript',
+    version: '1.0.0'
+  };
+
+  let graph: PropertyGraph;
+
+  const addFile = (id: string, filePath: string) => {
+    graph.addNode(new Node(
+      id,
+      NodeType.FILE,
+      filePath.split('/').pop()!,
+      { filePath, startLine: 1, endLine: 10 } as NodeMetadata,
+      new Set(['CodeElement', 'File']),
+      sourceMetadata
+    ));
+  };
+
+  const filesByModule = (modules: Array<{ name: string; files: string[] }>) =>
+    Object.fromEntries(modules.map(m => [m.name, [...m.files].sort()]));
+
+  beforeEach(() => {
+    graph = new PropertyGraph('test-graph', {
+      codebaseId: 'test',
+      parsedAt: new Date(),
+      language: 'typescript',
+      version: '1.0.0'
+    });
+  });
+
+  describe('CUSTOM level', () => {
+    const aggregateCustom = (groupingRules: GroupingRule[], fallbackModule?: string) =>
+      aggregator.aggregate(graph, '/repo', {
+        level: AggregationLevel.CUSTOM,
+        excludePatterns: [],
+        groupingRules,
+        fallbackModule
+      });
+
+    beforeEach(() => {
+      addFile('cart-ui', '/repo/src/features/cart/ui/Cart.tsx');
+      addFile('cart-api', '/repo/src/features/cart/api/client.ts');
+      addFile('login', '/repo/src/features/auth/Login.tsx');
+      addFile('button', '/repo/src/shared/ui/Button.tsx');
+      addFile('format', '/repo/src/shared/format.ts');
+      addFile('build', '/repo/scripts/build.ts');
+    });
+
+    it('should group files by glob rules, substituting wildcard captures', async () => {
+      const modules = await aggregateCustom([
+        { pattern: 'src/features/*/**', module: 'features/$1' },
+        { pattern: 'src/shared/**/*.{ts,tsx}', module: 'shared' }
+      ]);
+
+      expect(filesByModule(modules)).toEqual({
+        'features/cart': ['cart-api', 'cart-ui'],
+        'features/auth': ['login'],
+        'shared': ['button', 'format'],
+        'scripts': ['build']
+      });
+      expect(modules.find(m => m.name === 'features/cart')!.path).toBe('/repo/features/cart');
+      expect(modules.find(m => m.name === 'features/cart')!.metrics).toMatchObject({ fileCount: 2, totalLines: 20 });
+    });
+
+    it('should apply regex rules in order, first match wins', async () => {
+      const modules = await aggregateCustom([
+        { pattern: '^src/(features|shared)/(ui|api)/', type: 'regex', module: '$1-$2' },
+        { pattern: '^src/(features|shared)/', type: 'regex', module: '$1' }
+      ]);
+
+      expect(filesByModule(modules)).toEqual({
+        'features': ['cart-api', 'cart-ui', 'login'],
+        'shared-ui': ['button'],
+        'shared': ['format'],
+        'scripts': ['build']
+      });
+    });
+
+    it('should put unmatched files in the fallback module', async () => {
+      const modules = await aggregateCustom([{ pattern: 'src/features/**', module: 'features' }], 'other');
+
+      expect(filesByModule(modules)).toEqual({
+        'features': ['cart-api', 'cart-ui', 'login'],
+        'other': ['build', 'button', 'format']
+      });
+    });
+
+    it('should require at least one grouping rule', async () => {
+      await expect(aggregateCustom([])).rejects.toThrow('requires at least one grouping rule');
+    });
+
+    it('should read grouping rules and the fallback module from view options', () => {
+      const groupingRules: GroupingRule[] = [{ pattern: 'src/*/**', module: '$1' }];
+      const config = ModuleAggregator.createConfig(ViewConfiguration.create({
+        projectionType: ProjectionType.MODULE,
+        aggregationLevel: AggregationLevel.CUSTOM,
+        options: { groupingRules, fallbackModule: 'other' }
+      }));
+
+      expect(config).toMatchObject({ level: AggregationLevel.CUSTOM, groupingRules, fallbackModule: 'other' });
+    });
+  });
+
+  describe('PACKAGE level', () => {
+    const workspacePackages: WorkspacePackage[] = [
+      { name: '@acme/app', path: '/repo/packages/app' },
+      { name: '@acme/app-plugin', path: '/repo/packages/app/plugins/seo' },
+      { name: '@acme/apply', path: '/repo/packages/apply' }
+    ];
+
+    it('should put each file in the innermost workspace package containing it', async () => {
+      addFile('main', '/repo/packages/app/src/main.ts');
+      addFile('plugin', '/repo/packages/app/plugins/seo/index.ts');
+      addFile('apply', '/repo/packages/apply/index.ts');
+
+      const modules = await aggregator.aggregate(graph, '/repo', {
+        level: AggregationLevel.PACKAGE,
+        excludePatterns: [],
+        workspacePackages
+      });
+
+      // '/repo/packages/apply' only shares a name prefix with '/repo/packages/app'
+      expect(filesByModule(modules)).toEqual({
+        '@acme/app': ['main'],
+        '@acme/app-plugin': ['plugin'],
+        '@acme/apply': ['apply']
+      });
+    });
+  });
+});
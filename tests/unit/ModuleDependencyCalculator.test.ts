@@ -6,7 +6,9 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { PropertyGraph, NodeType, EdgeType, Node, Edge } from '@garrick0/c3-parsing';
 import { Logger, LogLevel } from '@garrick0/c3-shared';
 import { ModuleDependencyCalculator } from '../../src/domain/services/ModuleDependencyCalculator.js';
+import { type PackageManifest } from '../../src/domain/services/PackageManifestReader.js';
 import { Module } from '../../src/domain/entities/Module.js';
+import { ImportKind } from '../../src/domain/value-objects/ImportKind.js';
 
 describe('ModuleDependencyCalculator', () => {
   let calculator: ModuleDependencyCalculator;
@@ -166,6 +168,146 @@ describe('ModuleDependencyCalculator', () => {
       expect(moduleA.metrics.dependencyCount).toBe(1);
       expect(moduleB.metrics.dependentCount).toBe(1);
     });
+
+    it('should record import counts, file pairs and symbols per dependency', () => {
+      const graph = new PropertyGraph('test-graph');
+      graph.addNode(new Node('file-1', NodeType.FILE, new Set(['File']), { filePath: '/src/a/one.ts' }));
+      graph.addNode(new Node('file-2', NodeType.FILE, new Set(['File']), { filePath: '/src/a/two.ts' }));
+      graph.addNode(new Node('file-3', NodeType.FILE, new Set(['File']), { filePath: '/src/b/three.ts' }));
+
+      graph.addEdge(new Edge('edge-1', EdgeType.IMPORTS, 'file-1', 'file-3', { importedSymbols: ['User'] }));
+      graph.addEdge(new Edge('edge-2', EdgeType.IMPORTS, 'file-1', 'file-3', { importedSymbols: ['Role'] }));
+      graph.addEdge(new Edge('edge-3', EdgeType.IMPORTS, 'file-2', 'file-3', { importedSymbols: ['User'] }));
+
+      const moduleA = new Module('mod-a', 'a', '/src/a', ['file-1', 'file-2'], new Set(), new Set(), {
+        fileCount: 2, totalLines: 0, dependencyCount: 0, dependentCount: 0
+      });
+      const moduleB = new Module('mod-b', 'b', '/src/b', ['file-3'], new Set(), new Set(), {
+        fileCount: 1, totalLines: 0, dependencyCount: 0, dependentCount: 0
+      });
+
+      calculator.calculate([moduleA, moduleB], graph);
+
+      const details = moduleA.getDependencyDetails('mod-b')!;
+      expect(details.importCount).toBe(3);
+      expect(details.filePairs).toHaveLength(2);
+      expect(details.filePairs[0]).toEqual({
+        from: '/src/a/one.ts',
+        to: '/src/b/three.ts',
+        importCount: 2,
+        symbols: ['User', 'Role'],
+        kinds: [ImportKind.VALUE]
+      });
+      expect(details.symbols).toEqual(['Role', 'User']);
+      expect(moduleA.getDependencyCount()).toBe(1);
+    });
+  });
+
+  describe('import kinds', () => {
+    const build = () => {
+      const graph = new PropertyGraph('test-graph');
+      graph.addNode(new Node('file-1', NodeType.FILE, new Set(['File']), { filePath: '/src/a/index.ts' }));
+      graph.addNode(new Node('file-2', NodeType.FILE, new Set(['File']), { filePath: '/src/b/index.ts' }));
+
+      // a -> b at runtime, b -> a only for types
+      graph.addEdge(new Edge('edge-1', EdgeType.IMPORTS, 'file-1', 'file-2', { importedSymbols: ['b'] }));
+      graph.addEdge(new Edge('edge-2', EdgeType.IMPORTS, 'file-2', 'file-1', { importedSymbols: ['A'], isTypeOnly: true }));
+
+      const moduleA = new Module('mod-a', 'a', '/src/a', ['file-1'], new Set(), new Set(), {
+        fileCount: 1, totalLines: 0, dependencyCount: 0, dependentCount: 0
+      });
+      const moduleB = new Module('mod-b', 'b', '/src/b', ['file-2'], new Set(), new Set(), {
+        fileCount: 1, totalLines: 0, dependencyCount: 0, dependentCount: 0
+      });
+
+      return { graph, moduleA, moduleB };
+    };
+
+    it('should record the kind of each dependency', () => {
+      const { graph, moduleA, moduleB } = build();
+
+      calculator.calculate([moduleA, moduleB], graph);
+
+      expect(moduleA.getDependencyDetails('mod-b')!.kinds).toEqual([ImportKind.VALUE]);
+      expect(moduleB.getDependencyDetails('mod-a')!.kinds).toEqual([ImportKind.TYPE_ONLY]);
+      expect(moduleB.isTypeOnlyDependency('mod-a')).toBe(true);
+      expect(moduleA.isTypeOnlyDependency('mod-b')).toBe(false);
+    });
+
+    it('should skip excluded import kinds', () => {
+      const { graph, moduleA, moduleB } = build();
+
+      calculator.calculate([moduleA, moduleB], graph, { excludeImportKinds: [ImportKind.TYPE_ONLY] });
+
+      expect(moduleA.hasDependency('mod-b')).toBe(true);
+      expect(moduleB.hasDependency('mod-a')).toBe(false);
+    });
+  });
+
+  describe('external modules', () => {
+    const packageManifests = new Map<string, PackageManifest>([
+      ['/project', { workspaces: [], dependencies: { '@garrick0/c3-shared': '^1.0.0' } }],
+      ['/project/src', { workspaces: [], dependencies: { dagre: '^0.8.5' } }]
+    ]);
+
+    const build = () => {
+      const graph = new PropertyGraph('test-graph');
+      graph.addNode(new Node('file-1', NodeType.FILE, new Set(['File']), { filePath: '/project/src/a.ts' }));
+      graph.addEdge(new Edge('edge-1', EdgeType.IMPORTS, 'file-1', 'dagre'));
+      graph.addEdge(new Edge('edge-2', EdgeType.IMPORTS, 'file-1', '@garrick0/c3-shared/logging'));
+      graph.addEdge(new Edge('edge-3', EdgeType.IMPORTS, 'file-1', 'node:fs'));
+      graph.addEdge(new Edge('edge-4', EdgeType.IMPORTS, 'file-1', '@app/utils'));
+
+      const module = new Module('mod-src', 'src', '/project/src', ['file-1'], new Set(), new Set(), {
+        fileCount: 1, totalLines: 0, dependencyCount: 0, dependentCount: 0
+      });
+
+      return { graph, module };
+    };
+
+    it('should not create external modules unless asked to', () => {
+      const { graph, module } = build();
+
+      const result = calculator.calculate([module], graph, { packageManifests });
+
+      expect(result.externalModules).toEqual([]);
+      expect(module.getDependencyCount()).toBe(0);
+    });
+
+    it('should create one module per declared package with its version', () => {
+      const { graph, module } = build();
+
+      const { externalModules } = calculator.calculate([module], graph, { includeExternals: true, packageManifests });
+
+      expect(externalModules.map(m => m.id).sort()).toEqual(['external:@garrick0/c3-shared', 'external:dagre']);
+      const dagre = externalModules.find(m => m.id === 'external:dagre')!;
+      expect(dagre.external).toEqual({ packageName: 'dagre', builtin: false, version: '^0.8.5' });
+      expect(dagre.getDependents()).toEqual(['mod-src']);
+      expect(module.hasDependency('external:dagre')).toBe(true);
+      expect(externalModules.find(m => m.id === 'external:@garrick0/c3-shared')!.external!.version).toBe('^1.0.0');
+    });
+
+    it('should report undeclared packages as unresolved aliases', () => {
+      const { graph, module } = build();
+
+      const { externalModules, diagnostics } = calculator.calculate([module], graph, { includeExternals: true, packageManifests });
+
+      expect(externalModules.some(m => m.name === '@app/utils')).toBe(false);
+      expect(diagnostics.unresolved.map(u => [u.specifier, u.category])).toEqual([
+        ['node:fs', 'external'],
+        ['@app/utils', 'alias']
+      ]);
+      expect(diagnostics.byCategory).toMatchObject({ alias: 1, external: 1 });
+    });
+
+    it('should include Node built-ins when asked to', () => {
+      const { graph, module } = build();
+
+      const { externalModules } = calculator.calculate([module], graph, { includeExternals: true, includeBuiltins: true });
+
+      const fs = externalModules.find(m => m.id === 'builtin:fs')!;
+      expect(fs.external).toEqual({ packageName: 'fs', builtin: true });
+    });
   });
 
   describe('getTransitiveDependencies()', () => {
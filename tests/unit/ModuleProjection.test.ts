@@ -0,0 +1,163 @@
+/**
+ * Tests for ModuleProjection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../../src/domain/entities/ModuleProjection.js';
+import { Module } from '../../src/domain/entities/Module.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+import { CycleAnalyzer } from '../../src/domain/services/CycleAnalyzer.js';
+
+const metadata: ModuleProjectionMetadata = {
+  sourceGraphId: 'test-graph',
+  createdAt: new Date(),
+  projectionType: ProjectionType.MODULE,
+  configuration: {},
+  rootPath: '/src',
+  aggregationLevel: AggregationLevel.TOP_LEVEL,
+  generatedAt: new Date(),
+  totalFiles: 0,
+  totalDependencies: 0
+};
+
+const createModule = (id: string, files: string[] = [], dependencies: string[] = []): Module =>
+  new Module(id, id, `/src/${id}`, files, new Set(dependencies), new Set(), {
+    fileCount: files.length,
+    totalLines: files.length * 10,
+    dependencyCount: dependencies.length,
+    dependentCount: 0
+  });
+
+describe('ModuleProjection', () => {
+  describe('rollUp', () => {
+    // domain (container)          infrastructure (container)
+    //   domain/services  --------->  (nothing)
+    //   domain/entities  <---------  infrastructure/adapters
+    const build = () => {
+      const domain = createModule('domain');
+      const services = createModule('domain/services', ['s1', 's2'], ['domain/entities']);
+      const entities = createModule('domain/entities', ['e1']);
+      const infrastructure = createModule('infrastructure');
+      const adapters = createModule('infrastructure/adapters', ['a1'], ['domain/entities']);
+
+      for (const [parent, child] of [[domain, services], [domain, entities], [infrastructure, adapters]]) {
+        child.setParent(parent.id);
+        parent.addChild(child.id);
+      }
+
+      return new ModuleProjection('proj-1', metadata, [domain, services, entities, infrastructure, adapters]);
+    };
+
+    it('should expose the module hierarchy', () => {
+      const projection = build();
+
+      expect(projection.getParent('domain/services')!.id).toBe('domain');
+      expect(projection.getChildren('domain').map(m => m.id)).toEqual(['domain/services', 'domain/entities']);
+      expect(projection.getModuleDepth('domain')).toBe(1);
+      expect(projection.getModuleDepth('domain/entities')).toBe(2);
+    });
+
+    it('should aggregate files and dependencies into top-level modules', () => {
+      const rolled = build().rollUp(1);
+
+      expect(rolled.getModuleCount()).toBe(2);
+
+      const domain = rolled.getModule('domain')!;
+      expect(domain.files).toHaveLength(3);
+      expect(domain.metrics.totalLines).toBe(30);
+      // services -> entities is internal to domain
+      expect(domain.getDependencyCount()).toBe(0);
+
+      const infrastructure = rolled.getModule('infrastructure')!;
+      expect(infrastructure.getDependencies()).toEqual(['domain']);
+      expect(domain.getDependents()).toEqual(['infrastructure']);
+    });
+
+    it('should keep child modules when zooming in', () => {
+      const rolled = build().rollUp(2);
+
+      expect(rolled.getModules().map(m => m.id).sort()).toEqual([
+        'domain/entities',
+        'domain/services',
+        'infrastructure/adapters'
+      ]);
+      expect(rolled.getModule('domain/services')!.getDependencies()).toEqual(['domain/entities']);
+    });
+
+    it('should keep parent modules that own files when zooming in', () => {
+      // domain owns d0 next to its child domain/services
+      const domain = createModule('domain', ['d0'], ['infra/x']);
+      const services = createModule('domain/services', ['s1']);
+      const infra = createModule('infra');
+      const x = createModule('infra/x', ['x1']);
+      for (const [parent, child] of [[domain, services], [infra, x]]) {
+        child.setParent(parent.id);
+        parent.addChild(child.id);
+      }
+
+      const rolled = new ModuleProjection('proj-1', metadata, [domain, services, infra, x]).rollUp(2);
+
+      expect(rolled.getModules().map(m => m.id).sort()).toEqual(['domain', 'domain/services', 'infra/x']);
+      expect(rolled.getModule('domain')!.files).toEqual(['d0']);
+      expect(rolled.getModule('domain')!.getDependencies()).toEqual(['infra/x']);
+      expect(rolled.getModule('infra/x')!.getDependents()).toEqual(['domain']);
+    });
+  });
+
+  describe('getCycles', () => {
+    it('should expose the cycles recorded by CycleAnalyzer', () => {
+      const a = createModule('a', ['a1'], ['b']);
+      const b = createModule('b', ['b1'], ['a']);
+      const c = createModule('c', ['c1'], ['a']);
+      const projection = new ModuleProjection('proj-1', metadata, [a, b, c]);
+
+      projection.setCycles({ components: [['a', 'b', 'c']], cycles: [['a', 'b'], ['a', 'c']] });
+
+      expect(projection.getCycles().map(cycle => cycle.map(m => m.id))).toEqual([['a', 'b'], ['a', 'c']]);
+      expect(projection.getMetrics().cyclicDependencies).toBe(2);
+      expect(projection.getMetrics().cyclicComponents).toBe(1);
+    });
+
+    it('should analyze cycles on demand when none were recorded', () => {
+      const a = createModule('a', ['a1'], ['b']);
+      const b = createModule('b', ['b1'], ['a']);
+      const projection = new ModuleProjection('proj-1', metadata, [a, b]);
+
+      expect(projection.getCycles().map(cycle => cycle.map(m => m.id))).toEqual([['a', 'b']]);
+      expect(projection.getMetrics().cyclicDependencies).toBe(1);
+      expect(projection.getMetrics().cyclicComponents).toBe(1);
+    });
+
+    it('should report cycles between rolled-up modules', () => {
+      // app/ui -> core/model and core/model -> app/state only form a cycle once rolled up
+      const app = createModule('app');
+      const ui = createModule('app/ui', ['u1'], ['core/model']);
+      const state = createModule('app/state', ['s1']);
+      const core = createModule('core');
+      const model = createModule('core/model', ['m1'], ['app/state']);
+      for (const [parent, child] of [[app, ui], [app, state], [core, model]]) {
+        child.setParent(parent.id);
+        parent.addChild(child.id);
+      }
+      const projection = new ModuleProjection('proj-1', metadata, [app, ui, state, core, model]);
+      new CycleAnalyzer().record(projection);
+
+      expect(projection.getCycles()).toHaveLength(0);
+      expect(projection.rollUp(1).getCycles().map(cycle => cycle.map(m => m.id))).toEqual([['app', 'core']]);
+      expect(projection.rollUp(1).getMetrics().cyclicDependencies).toBe(1);
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should list the modules recorded in the main-sequence zones', () => {
+      const projection = new ModuleProjection('proj-1', metadata, [createModule('utils'), createModule('contracts')]);
+
+      projection.setMainSequenceZones({ pain: ['utils'], uselessness: ['contracts'] });
+
+      expect(projection.getSummary().zoneOfPain).toEqual(['utils']);
+      expect(projection.getSummary().zoneOfUselessness).toEqual(['contracts']);
+      expect(projection.rollUp(1).getSummary().zoneOfPain).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for RadialLayoutEngine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RadialLayoutEngine } from '../../src/infrastructure/layout-engines/RadialLayoutEngine.js';
+import { GraphView, type GraphViewNode, type GraphViewEdge } from '../../src/domain/entities/GraphView.js';
+import { createLogger } from '@garrick0/c3-shared';
+
+const createView = (ids: string[], links: Array<[string, string]>): GraphView => {
+  const nodes: GraphViewNode[] = ids.map(id => ({ id, label: id, type: 'module', width: 120, height: 60, metadata: {} }));
+  const edges: GraphViewEdge[] = links.map(([from, to]) => ({ id: `${from}-${to}`, from, to, metadata: {} }));
+  return new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() });
+};
+
+const distance = (view: GraphView, a: string, b: string): number =>
+  Math.hypot(view.getNode(a)!.x! - view.getNode(b)!.x!, view.getNode(a)!.y! - view.getNode(b)!.y!);
+
+describe('RadialLayoutEngine', () => {
+  const logger = createLogger('test');
+  const ids = ['app', 'ui', 'core', 'db', 'orphan'];
+  const links: Array<[string, string]> = [['app', 'ui'], ['app', 'core'], ['core', 'db']];
+
+  it('should put rings further out by distance from the focus', async () => {
+    const view = await new RadialLayoutEngine({ focus: 'app' }, logger).layout(createView(ids, links));
+
+    expect(distance(view, 'app', 'ui')).toBeCloseTo(distance(view, 'app', 'core'));
+    expect(distance(view, 'app', 'db')).toBeGreaterThan(distance(view, 'app', 'core'));
+    expect(distance(view, 'app', 'orphan')).toBeGreaterThan(distance(view, 'app', 'db'));
+    expect(view.metadata.layout).toBe('radial');
+    expect(view.metadata.layoutConfig).toMatchObject({ focus: 'app', direction: 'both' });
+  });
+
+  it('should focus on the node with the most edges by default', async () => {
+    const view = await new RadialLayoutEngine({}, logger).layout(createView(ids, links));
+
+    expect(view.metadata.layoutConfig?.focus).toBe('app');
+  });
+
+  it('should only follow the configured direction', async () => {
+    const view = await new RadialLayoutEngine({ focus: 'core', direction: 'dependents' }, logger)
+      .layout(createView(ids, links));
+
+    // db and ui are not dependents of core, so they share the outer ring with orphan
+    expect(distance(view, 'core', 'db')).toBeCloseTo(distance(view, 'core', 'orphan'));
+    expect(distance(view, 'core', 'db')).toBeGreaterThan(distance(view, 'core', 'app'));
+  });
+
+  it('should reject an unknown focus node', async () => {
+    await expect(new RadialLayoutEngine({ focus: 'missing' }, logger).layout(createView(ids, links)))
+      .rejects.toThrow(`Focus node 'missing' not found in graph view`);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for SARIFExporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PropertyGraph, NodeType, EdgeType, Node, Edge } from '@garrick0/c3-parsing';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { SARIFExporter } from '../../src/infrastructure/exporters/SARIFExporter.js';
+import { type ArchitectureViolation } from '../../src/domain/services/ArchitectureRuleEvaluator.js';
+import { type LayerViolation } from '../../src/domain/entities/LayerProjection.js';
+
+const build = (): PropertyGraph => {
+  const graph = new PropertyGraph('test-graph');
+  graph.addNode(new Node('a', NodeType.FILE, new Set(['File']), { filePath: '/repo/src/domain/A.ts' }));
+  graph.addNode(new Node('db', NodeType.FILE, new Set(['File']), { filePath: '/repo/src/infrastructure/Db.ts' }));
+  graph.addEdge(new Edge('e1', EdgeType.IMPORTS, 'a', '../infrastructure/Db.js', { lineNumber: 3 }));
+  graph.addEdge(new Edge('e2', EdgeType.IMPORTS, 'a', 'db', { lineNumber: 7 }));
+  return graph;
+};
+
+const layerViolation: LayerViolation = {
+  from: '/repo/src/domain/A.ts',
+  to: '/repo/src/infrastructure/Db.ts',
+  reason: `Layer 'domain' must not depend on layer 'infrastructure'`,
+  fromLayer: 'domain',
+  toLayer: 'infrastructure',
+  edgeId: 'e1'
+};
+
+const ruleViolation: ArchitectureViolation = {
+  rule: 'no-infra',
+  type: 'forbidden',
+  severity: 'warning',
+  message: `Module 'domain' must not depend on 'infrastructure'`,
+  from: 'module-domain',
+  to: 'module-infrastructure',
+  imports: [{ from: '/repo/src/domain/A.ts', to: '/repo/src/infrastructure/Db.ts', importCount: 2, symbols: ['Db'], kinds: [] }]
+};
+
+describe('SARIFExporter', () => {
+  const exporter = new SARIFExporter(new Logger('test', LogLevel.ERROR));
+
+  it('should emit a SARIF 2.1.0 log with one rule per layer pair', () => {
+    const sarif = JSON.parse(exporter.export(build(), { layers: [layerViolation] }, { rootPath: '/repo' }));
+    const run = sarif.runs[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('c3-projection');
+    expect(run.tool.driver.rules.map((r: any) => r.id)).toEqual(['layers/domain->infrastructure']);
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///repo/');
+    expect(run.results).toHaveLength(1);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'layers/domain->infrastructure',
+      ruleIndex: 0,
+      level: 'error',
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/domain/A.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 3 }
+        }
+      }]
+    });
+  });
+
+  it('should emit one result per import statement behind a rule violation', () => {
+    const sarif = JSON.parse(exporter.export(build(), { rules: [ruleViolation] }, { rootPath: '/repo' }));
+    const results = sarif.runs[0].results;
+
+    expect(results.map((r: any) => r.locations[0].physicalLocation.region.startLine)).toEqual([3, 7]);
+    expect(results[0]).toMatchObject({ ruleId: 'no-infra', level: 'warning' });
+    expect(results[0].message.text).toContain('imports src/infrastructure/Db.ts');
+  });
+
+  it('should point at the file only when the import edge is unknown', () => {
+    const violation = { ...layerViolation, edgeId: undefined };
+
+    const sarif = JSON.parse(exporter.export(build(), { layers: [violation] }));
+    const location = sarif.runs[0].results[0].locations[0].physicalLocation;
+
+    expect(location.artifactLocation.uri).toBe('file:///repo/src/domain/A.ts');
+    expect(location.region).toBeUndefined();
+  });
+});
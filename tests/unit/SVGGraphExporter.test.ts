@@ -0,0 +1,52 @@
+/**
+ * Tests for SVGGraphExporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SVGGraphExporter } from '../../src/infrastructure/exporters/SVGGraphExporter.js';
+import { GraphView, type GraphViewNode, type GraphViewEdge } from '../../src/domain/entities/GraphView.js';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+
+const createView = (edge: Partial<GraphViewEdge>): GraphView => {
+  const nodes: GraphViewNode[] = [
+    { id: 'A', label: 'A', type: 'module', x: 100, y: 50, width: 100, height: 50, metadata: {} },
+    { id: 'B', label: 'B', type: 'module', x: 100, y: 250, width: 100, height: 50, metadata: {} }
+  ];
+  const edges: GraphViewEdge[] = [{ id: 'A-B', from: 'A', to: 'B', metadata: {}, ...edge }];
+  return new GraphView('view-1', nodes, edges, { projectionType: 'test', generatedAt: new Date() });
+};
+
+describe('SVGGraphExporter', () => {
+  const exporter = new SVGGraphExporter(new Logger('test', LogLevel.ERROR));
+  const points = [{ x: 120, y: 75 }, { x: 180, y: 150 }, { x: 120, y: 225 }];
+
+  it('should draw straight edges from boundary to boundary without routing points', () => {
+    const svg = exporter.export(createView({}));
+
+    expect(svg).toContain('<line x1="20" y1="45" x2="20" y2="195"');
+  });
+
+  it('should draw routed edges as splines or polylines through their points', () => {
+    const view = createView({ points });
+
+    expect(exporter.export(view)).toMatch(/<path d="M40,45 C[^"]* 40,195"/);
+    expect(exporter.export(view, { edgeStyle: 'polyline' })).toContain('<polyline points="40,45 100,120 40,195"');
+    expect(exporter.export(view, { edgeStyle: 'straight' })).toContain('<line x1="20" y1="45" x2="20" y2="195"');
+  });
+
+  it('should draw edges 2 wide unless asked to scale them by weight', () => {
+    const view = createView({ weight: 4 });
+
+    expect(exporter.export(view)).toContain('stroke-width="2"');
+    expect(exporter.export(view, { edgeWidth: 'weight' })).toContain('stroke-width="4"');
+    expect(exporter.export(createView({ weight: 1 }), { edgeWidth: 'weight' })).toContain('stroke-width="2"');
+  });
+
+  it('should place edge labels at the layout position, or halfway along the edge', () => {
+    const placed = exporter.export(createView({ points, label: 'uses', labelX: 180, labelY: 150 }));
+    const unplaced = exporter.export(createView({ label: 'uses' }));
+
+    expect(placed).toMatch(/<text x="100" y="120"[^>]*>uses<\/text>/);
+    expect(unplaced).toMatch(/<text x="20" y="120"[^>]*>uses<\/text>/);
+  });
+});
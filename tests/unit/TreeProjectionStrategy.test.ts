@@ -0,0 +1,109 @@
+/**
+ * Tests for TreeProjectionStrategy
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PropertyGraph, Node, Edge, NodeType, EdgeType, type NodeMetadata, type SourceMetadata } from '@garrick0/c3-parsing';
+import { createLogger } from '@garrick0/c3-shared';
+import { TreeProjectionStrategy } from '../../src/infrastructure/strategies/TreeProjectionStrategy.js';
+import { TreeProjection } from '../../src/domain/entities/TreeProjection.js';
+import { ViewConfiguration } from '../../src/domain/value-objects/ViewConfiguration.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+describe('TreeProjectionStrategy', () => {
+  const logger = createLogger('test');
+  const sourceMetadata: SourceMetadata = {
+    domain: 'code',
+    extension: 'typescript',
+    version: '1.0.0'
+  };
+
+  const config = ViewConfiguration.create({
+    projectionType: ProjectionType.TREE,
+    aggregationLevel: AggregationLevel.DIRECTORY
+  });
+
+  let strategy: TreeProjectionStrategy;
+  let graph: PropertyGraph;
+
+  const addNode = (id: string, type: NodeType, filePath: string, startLine: number, endLine: number) => {
+    graph.addNode(new Node(
+      id,
+      type,
+      type === NodeType.FILE ? filePath.split('/').pop()! : id,
+      { filePath, startLine, endLine } as NodeMetadata,
+      new Set(['CodeElement']),
+      sourceMetadata
+    ));
+  };
+
+  const addImport = (id: string, from: string, to: string) => {
+    graph.addEdge(new Edge(id, EdgeType.IMPORTS, from, to, {}, sourceMetadata));
+  };
+
+  const metadataOf = (projection: TreeProjection, id: string) => projection.findNode(id)!.metadata;
+
+  beforeEach(() => {
+    strategy = new TreeProjectionStrategy(logger, '/test/src');
+    graph = new PropertyGraph('test-graph', {
+      codebaseId: 'test',
+      parsedAt: new Date(),
+      language: 'typescript',
+      version: '1.0.0'
+    });
+
+    addNode('file-main', NodeType.FILE, '/test/src/app/Main.ts', 1, 20);
+    addNode('file-entity', NodeType.FILE, '/test/src/domain/Entity.ts', 1, 10);
+    addNode('file-value', NodeType.FILE, '/test/src/domain/model/Value.ts', 1, 5);
+    addNode('file-outside', NodeType.FILE, '/test/scripts/build.ts', 1, 40);
+    addNode('file-dependency', NodeType.FILE, '/test/src/node_modules/lib/index.ts', 1, 40);
+    addNode('Main.Routes', NodeType.MODULE, '/test/src/app/Main.ts', 3, 8);
+  });
+
+  it('should mirror the directory hierarchy below the root', async () => {
+    const projection = await strategy.project(graph, config) as TreeProjection;
+    const root = projection.getRoot()!;
+
+    expect(projection).toBeInstanceOf(TreeProjection);
+    expect(root.name).toBe('src');
+    expect(root.children.map(c => c.id)).toEqual(['dir:app', 'dir:domain']);
+    expect(projection.findNode('dir:domain')!.children.map(c => c.name)).toEqual(['model', 'Entity.ts']);
+    expect(projection.findNode('file-main')!.children).toEqual([{
+      id: 'Main.Routes',
+      name: 'Main.Routes',
+      type: 'module',
+      children: [],
+      metadata: { startLine: 3, endLine: 8 }
+    }]);
+    expect(projection.findNode('file-outside')).toBeUndefined();
+    expect(projection.findNode('file-dependency')).toBeUndefined();
+  });
+
+  it('should count lines inclusively and roll line and file counts up', async () => {
+    const projection = await strategy.project(graph, config) as TreeProjection;
+
+    expect(metadataOf(projection, 'file-entity')).toMatchObject({ lineCount: 10, fileCount: 1 });
+    expect(metadataOf(projection, 'dir:domain/model')).toMatchObject({ lineCount: 5, fileCount: 1 });
+    expect(metadataOf(projection, 'dir:domain')).toMatchObject({ lineCount: 15, fileCount: 2 });
+    expect(metadataOf(projection, 'dir:.')).toMatchObject({ lineCount: 35, fileCount: 3 });
+  });
+
+  it('should count imports leaving each directory up to the common ancestor', async () => {
+    addImport('e1', 'file-main', 'file-entity');
+    addImport('e2', 'file-value', '../Entity.js');
+    addImport('e3', 'file-entity', 'file-value');
+
+    const projection = await strategy.project(graph, config) as TreeProjection;
+
+    expect(metadataOf(projection, 'file-main').outgoingImports).toBe(1);
+    expect(metadataOf(projection, 'file-value').outgoingImports).toBe(1);
+    expect(metadataOf(projection, 'file-entity').outgoingImports).toBe(1);
+    expect(metadataOf(projection, 'dir:app').outgoingImports).toBe(1);
+    expect(metadataOf(projection, 'dir:domain/model').outgoingImports).toBe(1);
+
+    // domain/model -> domain and domain -> domain/model stay inside domain
+    expect(metadataOf(projection, 'dir:domain').outgoingImports).toBe(0);
+    expect(metadataOf(projection, 'dir:.').outgoingImports).toBe(0);
+  });
+});
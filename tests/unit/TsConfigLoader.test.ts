@@ -0,0 +1,132 @@
+/**
+ * Tests for TsConfigLoader
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { TsConfigLoader } from '../../src/domain/services/TsConfigLoader.js';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+describe('TsConfigLoader', () => {
+  const loader = new TsConfigLoader(new Logger('test', LogLevel.ERROR));
+  let root: string;
+
+  const writeFile = async (relativePath: string, content: unknown) => {
+    const filePath = path.join(root, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'c3-tsconfig-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should find the nearest tsconfig.json and return nothing without one', async () => {
+    await writeFile('tsconfig.json', { compilerOptions: { baseUrl: 'src' } });
+    await writeFile('src/app/main.ts', '');
+
+    const mapping = await loader.load(path.join(root, 'src/app'));
+
+    expect(mapping).toEqual({
+      configPath: path.join(root, 'tsconfig.json'),
+      baseUrl: path.join(root, 'src'),
+      pathsBasePath: path.join(root, 'src'),
+      paths: {}
+    });
+
+    await fs.rm(path.join(root, 'tsconfig.json'));
+    expect(await loader.load(path.join(root, 'src/app'))).toBeUndefined();
+  });
+
+  it('should resolve settings inherited through relative extends against the declaring file', async () => {
+    await writeFile('configs/base.json', { compilerOptions: { baseUrl: '..', paths: { '@/*': ['src/*'] } } });
+    await writeFile('configs/strict.json', { extends: './base', compilerOptions: { strict: true } });
+    await writeFile('tsconfig.json', { extends: './configs/strict.json' });
+
+    const mapping = await loader.load(root);
+
+    expect(mapping).toMatchObject({ baseUrl: root, pathsBasePath: root, paths: { '@/*': ['src/*'] } });
+  });
+
+  it('should resolve extends of packages in node_modules', async () => {
+    await writeFile('node_modules/@acme/tsconfig/tsconfig.json', { compilerOptions: { paths: { '#lib/*': ['lib/*'] } } });
+    await writeFile('node_modules/shared-config/node.json', { compilerOptions: { baseUrl: 'types' } });
+    await writeFile('packages/app/tsconfig.json', { extends: '@acme/tsconfig' });
+    await writeFile('packages/api/tsconfig.json', { extends: ['@acme/tsconfig', 'shared-config/node.json'] });
+
+    // Without a baseUrl, paths are relative to the package that declares them
+    expect(await loader.load(path.join(root, 'packages/app'))).toMatchObject({
+      baseUrl: undefined,
+      pathsBasePath: path.join(root, 'node_modules/@acme/tsconfig'),
+      paths: { '#lib/*': ['lib/*'] }
+    });
+
+    // With one in effect, they are relative to the baseUrl, wherever it is declared
+    expect(await loader.load(path.join(root, 'packages/api'))).toMatchObject({
+      baseUrl: path.join(root, 'node_modules/shared-config/types'),
+      pathsBasePath: path.join(root, 'node_modules/shared-config/types'),
+      paths: { '#lib/*': ['lib/*'] }
+    });
+  });
+
+  it('should let nested paths replace inherited ones, relative to the effective baseUrl', async () => {
+    await writeFile('tsconfig.base.json', { compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'], '@old/*': ['legacy/*'] } } });
+    await writeFile('packages/web/tsconfig.json', {
+      extends: '../../tsconfig.base.json',
+      compilerOptions: { paths: { '@/*': ['./src/*'] } }
+    });
+
+    const mapping = await loader.load(path.join(root, 'packages/web'));
+
+    expect(mapping).toMatchObject({ baseUrl: root, pathsBasePath: root });
+    expect(mapping!.paths).toEqual({ '@/*': ['./src/*'] });
+  });
+
+  it('should parse comments and trailing commas without touching string values', async () => {
+    await writeFile('tsconfig.json', [
+      '{',
+      '  // line comment',
+      '  "compilerOptions": {',
+      '    /* block',
+      '       comment */',
+      '    "baseUrl": "./src", // trailing comment',
+      '    "paths": {',
+      '      "a,}": ["b,]/*"],',
+      '      "//not-a-comment/*": ["/* kept */",],',
+      '    },',
+      '  },',
+      '}'
+    ].join('\n'));
+
+    const mapping = await loader.load(root);
+
+    expect(mapping!.paths).toEqual({ 'a,}': ['b,]/*'], '//not-a-comment/*': ['/* kept */'] });
+  });
+
+  it('should reject circular extends chains and invalid JSON', async () => {
+    await writeFile('a.json', { extends: './b.json' });
+    await writeFile('b.json', { extends: './a.json' });
+
+    await expect(loader.load(root, 'a.json')).rejects.toThrow('Circular tsconfig "extends" chain');
+
+    await writeFile('broken.json', '{ "compilerOptions": { "baseUrl": } }');
+    await expect(loader.load(root, 'broken.json')).rejects.toThrow('Failed to parse');
+  });
+
+  it('should reject settings of the wrong type, naming the tsconfig', async () => {
+    await writeFile('extends.json', { extends: ['./base.json', 3] });
+    await writeFile('base-url.json', { compilerOptions: { baseUrl: 1 } });
+    await writeFile('paths.json', { compilerOptions: { paths: { '@/*': 'src/*' } } });
+
+    await expect(loader.load(root, 'extends.json'))
+      .rejects.toThrow(`Invalid tsconfig ${path.join(root, 'extends.json')}: "extends" must be a path or a list of paths`);
+    await expect(loader.load(root, 'base-url.json')).rejects.toThrow('"compilerOptions.baseUrl" must be a path');
+    await expect(loader.load(root, 'paths.json')).rejects.toThrow('"compilerOptions.paths" must map each pattern');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for ViolationBaselineComparator and FileViolationBaselineRepository
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { ViolationBaselineComparator } from '../../src/domain/services/ViolationBaselineComparator.js';
+import { type ArchitectureViolation } from '../../src/domain/services/ArchitectureRuleEvaluator.js';
+import { FileViolationBaselineRepository } from '../../src/infrastructure/persistence/FileViolationBaselineRepository.js';
+import { type LayerViolation } from '../../src/domain/entities/LayerProjection.js';
+import { ModuleProjection, type ModuleProjectionMetadata } from '../../src/domain/entities/ModuleProjection.js';
+import { Module } from '../../src/domain/entities/Module.js';
+import { ProjectionType } from '../../src/domain/value-objects/ProjectionType.js';
+import { AggregationLevel } from '../../src/domain/value-objects/AggregationLevel.js';
+
+const metadata: ModuleProjectionMetadata = {
+  sourceGraphId: 'test-graph',
+  createdAt: new Date(),
+  projectionType: ProjectionType.MODULE,
+  configuration: {},
+  rootPath: '/repo',
+  aggregationLevel: AggregationLevel.DIRECTORY,
+  generatedAt: new Date(),
+  totalFiles: 0,
+  totalDependencies: 0
+};
+
+const createModule = (id: string): Module =>
+  new Module(id, id, `/repo/src/${id}`, [], new Set(), new Set(), {
+    fileCount: 0,
+    totalLines: 0,
+    dependencyCount: 0,
+    dependentCount: 0
+  });
+
+const layerViolation = (from: string, to: string): LayerViolation => ({
+  from: `/repo/src/domain/${from}`,
+  to: `/repo/src/infrastructure/${to}`,
+  reason: `Layer 'domain' must not depend on layer 'infrastructure'`,
+  fromLayer: 'domain',
+  toLayer: 'infrastructure'
+});
+
+const ruleViolation = (files: string[]): ArchitectureViolation => ({
+  rule: 'no-infra',
+  type: 'forbidden',
+  severity: 'error',
+  message: `Module 'domain' must not depend on 'infrastructure'`,
+  from: 'domain',
+  to: 'infrastructure',
+  imports: files.map(file => ({
+    from: `/repo/src/domain/${file}`,
+    to: '/repo/src/infrastructure/Db.ts',
+    importCount: 1,
+    symbols: ['Db'],
+    kinds: []
+  }))
+});
+
+describe('ViolationBaselineComparator', () => {
+  const comparator = new ViolationBaselineComparator();
+  const projection = new ModuleProjection('proj-1', metadata, [createModule('domain'), createModule('infrastructure')]);
+
+  it('should record entries keyed by module pair and relative file pair', () => {
+    const baseline = comparator.createBaseline([
+      ...comparator.fromLayerViolations([layerViolation('A.ts', 'Db.ts'), layerViolation('A.ts', 'Db.ts')], '/repo'),
+      ...comparator.fromRuleViolations([ruleViolation(['A.ts'])], projection)
+    ]);
+
+    expect(baseline.version).toBe(1);
+    expect(baseline.entries).toEqual([
+      { kind: 'layer', from: 'domain', to: 'infrastructure', fromFile: 'src/domain/A.ts', toFile: 'src/infrastructure/Db.ts' },
+      {
+        kind: 'rule',
+        rule: 'no-infra',
+        from: 'src/domain',
+        to: 'src/infrastructure',
+        fromFile: 'src/domain/A.ts',
+        toFile: 'src/infrastructure/Db.ts'
+      }
+    ]);
+  });
+
+  it('should report only new layer violations and the fixed entries', () => {
+    const baseline = comparator.createBaseline(
+      comparator.fromLayerViolations([layerViolation('A.ts', 'Db.ts'), layerViolation('B.ts', 'Db.ts')], '/repo')
+    );
+
+    const comparison = comparator.compareLayerViolations(
+      [layerViolation('A.ts', 'Db.ts'), layerViolation('C.ts', 'Db.ts')],
+      baseline,
+      '/repo'
+    );
+
+    expect(comparison.newViolations.map(v => v.from)).toEqual(['/repo/src/domain/C.ts']);
+    expect(comparison.fixedEntries.map(e => e.fromFile)).toEqual(['src/domain/B.ts']);
+    expect(comparison.knownEntries).toBe(1);
+  });
+
+  it('should keep only the new file pairs of a partly baselined rule violation', () => {
+    const baseline = comparator.createBaseline(comparator.fromRuleViolations([ruleViolation(['A.ts'])], projection));
+
+    const comparison = comparator.compareRuleViolations([ruleViolation(['A.ts', 'B.ts'])], projection, baseline);
+
+    expect(comparison.newViolations).toHaveLength(1);
+    expect(comparison.newViolations[0].imports.map(i => i.from)).toEqual(['/repo/src/domain/B.ts']);
+    expect(comparison.fixedEntries).toEqual([]);
+    expect(comparison.knownEntries).toBe(1);
+  });
+
+  it('should not mix layer and rule entries', () => {
+    const baseline = comparator.createBaseline(comparator.fromRuleViolations([ruleViolation(['A.ts'])], projection));
+
+    const comparison = comparator.compareLayerViolations([], baseline, '/repo');
+
+    expect(comparison.fixedEntries).toEqual([]);
+    expect(comparison.knownEntries).toBe(0);
+  });
+});
+
+describe('FileViolationBaselineRepository', () => {
+  const logger = new Logger('test', LogLevel.ERROR);
+
+  it('should return undefined before a baseline is saved, then round-trip it', async () => {
+    const filePath = path.join(mkdtempSync(path.join(tmpdir(), 'c3-baseline-')), 'nested', 'baseline.json');
+    const repository = new FileViolationBaselineRepository(filePath, logger);
+    const baseline = new ViolationBaselineComparator().createBaseline([
+      { kind: 'layer', from: 'domain', to: 'infrastructure', fromFile: 'src/domain/A.ts', toFile: 'src/infrastructure/Db.ts' }
+    ]);
+
+    expect(await repository.load()).toBeUndefined();
+
+    await repository.save(baseline);
+
+    expect(await repository.load()).toEqual(baseline);
+  });
+});
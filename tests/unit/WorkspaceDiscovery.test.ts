@@ -0,0 +1,85 @@
+/**
+ * Tests for WorkspaceDiscovery
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Logger, LogLevel } from '@garrick0/c3-shared';
+import { WorkspaceDiscovery } from '../../src/domain/services/WorkspaceDiscovery.js';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+describe('WorkspaceDiscovery', () => {
+  const discovery = new WorkspaceDiscovery(new Logger('test', LogLevel.ERROR));
+  let root: string;
+
+  const writeFile = async (relativePath: string, content: unknown) => {
+    const filePath = path.join(root, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  const names = async (startPath: string) =>
+    (await discovery.discover(startPath)).map(p => p.name).sort();
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'c3-workspace-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should read npm workspaces from a package.json above the start path', async () => {
+    await writeFile('package.json', { name: 'root', workspaces: ['packages/*'] });
+    await writeFile('packages/core/package.json', { name: '@acme/core', main: 'dist/index.js', typings: 'dist/index.d.ts' });
+    await writeFile('packages/web/package.json', { name: '@acme/web', module: 'dist/index.mjs' });
+    await writeFile('packages/docs/README.md', '# no manifest');
+    await writeFile('packages/core/src/index.ts', '');
+
+    const packages = await discovery.discover(path.join(root, 'packages/core/src'));
+
+    expect(packages.map(p => p.name).sort()).toEqual(['@acme/core', '@acme/web']);
+    expect(packages.find(p => p.name === '@acme/core')).toEqual({
+      name: '@acme/core',
+      path: path.join(root, 'packages/core'),
+      main: 'dist/index.js',
+      module: undefined,
+      types: 'dist/index.d.ts'
+    });
+  });
+
+  it('should read yarn workspaces given as { packages } with nested and negated globs', async () => {
+    await writeFile('package.json', { private: true, workspaces: { packages: ['apps/*', 'libs/**', '!libs/internal'] } });
+    await writeFile('apps/site/package.json', { name: 'site' });
+    await writeFile('apps/site/plugins/seo/package.json', { name: 'seo-plugin' });
+    await writeFile('libs/ui/package.json', { name: 'ui' });
+    await writeFile('libs/data/sql/package.json', { name: 'sql' });
+    await writeFile('libs/internal/package.json', { name: 'internal' });
+    await writeFile('libs/ui/node_modules/dep/package.json', { name: 'dep' });
+
+    // apps/* stops at one level; libs/** reaches any depth outside node_modules
+    expect(await names(root)).toEqual(['site', 'sql', 'ui']);
+  });
+
+  it('should read packages from pnpm-workspace.yaml', async () => {
+    await writeFile('package.json', { name: 'root' });
+    await writeFile('pnpm-workspace.yaml', 'packages:\n  - "tools/*"\n');
+    await writeFile('tools/cli/package.json', { name: 'cli' });
+
+    expect(await names(root)).toEqual(['cli']);
+  });
+
+  it('should skip malformed manifests and return nothing outside a workspace', async () => {
+    await writeFile('package.json', { name: 'root', workspaces: 'packages/*' });
+    await writeFile('packages/a/package.json', { name: 'a' });
+
+    expect(await names(path.join(root, 'packages/a'))).toEqual([]);
+
+    await writeFile('package.json', { name: 'root', workspaces: ['packages/*'] });
+    await writeFile('packages/b/package.json', '{ not json');
+    await writeFile('packages/c/package.json', { name: 42 });
+
+    expect(await names(root)).toEqual(['a']);
+  });
+});